@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCDN } from "../../../../lib/cdn";
+import { authError, authEnabled, authorize } from "../../../../lib/auth";
+import { errorBody, statusOf } from "../../../../lib/errors";
+
+export const runtime = "edge";
+
+async function purge() {
+    try {
+        const cdn = createCDN();
+        // Permanently removes trashed assets past CDN_TRASH_RETENTION_DAYS
+        const { purged } = await cdn.purgeTrash();
+        return NextResponse.json({ success: true, purgedCount: purged.length, purged });
+    } catch (error: unknown) {
+        return NextResponse.json({ success: false, ...errorBody(error) }, { status: statusOf(error) });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const denied = authorize(req, "admin");
+    if (denied) return denied;
+
+    return purge();
+}
+
+// Vercel Cron (see vercel.json) calls GET with `Authorization: Bearer $CRON_SECRET`; admins may call it too
+export async function GET(req: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+        const denied = secret && !authEnabled() ? authError(401, "Authentication required") : authorize(req, "admin");
+        if (denied) return denied;
+    }
+    return purge();
+}
@@ -1,20 +1,20 @@
-import { NextResponse } from "next/server";
-import { GithubCDN } from "../../../../github_cdn_package/src/index";
+import { NextRequest, NextResponse } from "next/server";
+import { createCDN } from "../../../../lib/cdn";
+import { authorize } from "../../../../lib/auth";
+import { errorBody, statusOf } from "../../../../lib/errors";
 
 export const runtime = "edge";
 
-export async function POST() {
+export async function POST(req: NextRequest) {
+    const denied = authorize(req, "admin");
+    if (denied) return denied;
+
     try {
-        const cdn = new GithubCDN({
-            token: process.env.GITHUB_TOKEN!,
-            owner: process.env.GITHUB_OWNER!,
-            repo: process.env.GITHUB_REPO!,
-        });
+        const cdn = createCDN();
         // High-level SDK recon method
         const result = await cdn.sync();
         return NextResponse.json({ success: true, recoveredCount: result.recovered });
     } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : "Unknown error";
-        return NextResponse.json({ success: false, error: message }, { status: 500 });
+        return NextResponse.json({ success: false, ...errorBody(error) }, { status: statusOf(error) });
     }
 }
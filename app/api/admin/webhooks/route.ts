@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "../../../../lib/auth";
+import { errorBody, statusOf } from "../../../../lib/errors";
+import { webhooks } from "../../../../lib/webhooks";
+
+export const runtime = "edge";
+
+// Dead letters live in memory, so both calls only see deliveries this server instance gave up on
+export async function GET(req: NextRequest) {
+    const denied = authorize(req, "admin");
+    if (denied) return denied;
+    if (!webhooks) return NextResponse.json({ success: false, error: "No webhooks configured" }, { status: 404 });
+
+    return NextResponse.json({ success: true, deadLetters: await webhooks.deadLetters.list() });
+}
+
+export async function POST(req: NextRequest) {
+    const denied = authorize(req, "admin");
+    if (denied) return denied;
+    if (!webhooks) return NextResponse.json({ success: false, error: "No webhooks configured" }, { status: 404 });
+
+    try {
+        const { delivered, failed } = await webhooks.replay();
+        return NextResponse.json({ success: true, delivered, failed });
+    } catch (error: unknown) {
+        return NextResponse.json({ success: false, ...errorBody(error) }, { status: statusOf(error) });
+    }
+}
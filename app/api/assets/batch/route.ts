@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ValidationError } from "../../../../github_cdn_package/src/index";
+import { createCDN } from "../../../../lib/cdn";
+import { authorize } from "../../../../lib/auth";
+import { errorResponse } from "../../../../lib/errors";
+import { deleteAssets } from "../../../../lib/deletion";
+import { streamLogs } from "../../../../lib/ndjson";
+
+export const runtime = "edge";
+
+// Small files only: the whole request body is subject to the platform's payload limit
+export async function POST(req: NextRequest) {
+    const denied = authorize(req, "uploader");
+    if (denied) return denied;
+
+    try {
+        const cdn = createCDN();
+        const formData = await req.formData();
+        const files = formData.getAll("files").filter((f): f is File => f instanceof File);
+        if (!files.length) {
+            return NextResponse.json({ error: "No files provided" }, { status: 400 });
+        }
+        const folder = (formData.get("folder") as string | null) ?? undefined;
+        const tags = formData.getAll("tags").map(String);
+
+        return streamLogs(onUpdate => cdn.uploadMany(
+            files.map(input => ({ input, folder, tags: tags.length ? tags : undefined })),
+            onUpdate
+        ));
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
+
+export async function DELETE(req: NextRequest) {
+    return deleteAssets(req, ({ ids }) => {
+        if (!Array.isArray(ids) || !ids.length || !ids.every(id => typeof id === "string")) {
+            throw new ValidationError("ids must be a non-empty array of strings");
+        }
+        return { ids };
+    });
+}
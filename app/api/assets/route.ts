@@ -1,53 +1,69 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GithubCDN } from "../../../github_cdn_package/src/index";
+import { ValidationError } from "../../../github_cdn_package/src/index";
+import { createCDN } from "../../../lib/cdn";
+import { authorize } from "../../../lib/auth";
+import { throttle } from "../../../lib/throttle";
+import { errorResponse } from "../../../lib/errors";
+import { deleteAssets } from "../../../lib/deletion";
 
 export const runtime = "edge";
 
-export async function GET() {
+export async function GET(req: NextRequest) {
+    const denied = (await throttle(req)) ?? authorize(req, "reader");
+    if (denied) return denied;
+
     try {
-        const cdn = new GithubCDN({
-            token: process.env.GITHUB_TOKEN!,
-            owner: process.env.GITHUB_OWNER!,
-            repo: process.env.GITHUB_REPO!,
-        });
+        const cdn = createCDN();
+        const params = req.nextUrl.searchParams;
 
-        const assets = await cdn.list();
-        return NextResponse.json({ assets });
+        // Cursor-based paging: pass back `cursor` from the previous response until it is null
+        const { assets, cursor, registryMissing } = await cdn.list({
+            cursor: params.get("cursor"),
+            limit: Number(params.get("limit")) || undefined,
+            prefix: params.get("prefix") ?? undefined,
+            folder: params.get("folder") ?? undefined,
+            tag: params.get("tag") ?? undefined
+        });
+        // An empty list either way, but the dashboard can tell a fresh repository from a broken one;
+        // `softDelete` tells it whether a delete can be undone
+        return NextResponse.json({ assets, cursor, registryMissing: !!registryMissing, softDelete: cdn.softDeletes });
     } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : "Unknown error";
-        return NextResponse.json({ error: message }, { status: 500 });
+        return errorResponse(error);
     }
 }
 
-export async function DELETE(req: NextRequest) {
+export async function PATCH(req: NextRequest) {
+    const denied = authorize(req, "uploader");
+    if (denied) return denied;
+
     try {
-        const cdn = new GithubCDN({
-            token: process.env.GITHUB_TOKEN!,
-            owner: process.env.GITHUB_OWNER!,
-            repo: process.env.GITHUB_REPO!,
-        });
-        const { id, path } = await req.json();
-        if (!id || !path) throw new Error("Missing ID or path");
-
-        const encoder = new TextEncoder();
-        const stream = new ReadableStream({
-            async start(controller) {
-                try {
-                    await cdn.delete(id, path, (log) => {
-                        controller.enqueue(encoder.encode(JSON.stringify(log) + "\n"));
-                    });
-                    controller.close();
-                } catch (err: unknown) {
-                    const message = err instanceof Error ? err.message : "Unknown error";
-                    controller.enqueue(encoder.encode(JSON.stringify({ type: "error", message: message }) + "\n"));
-                    controller.close();
-                }
-            }
-        });
+        const cdn = createCDN();
+        const { id, metadata, tags, folder } = await req.json();
+        if (!id) {
+            return NextResponse.json({ error: "Missing ID" }, { status: 400 });
+        }
+        if (tags !== undefined && !(Array.isArray(tags) && tags.every(t => typeof t === "string"))) {
+            return NextResponse.json({ error: "tags must be an array of strings" }, { status: 400 });
+        }
+        if (folder !== undefined && folder !== null && typeof folder !== "string") {
+            return NextResponse.json({ error: "folder must be a string or null" }, { status: 400 });
+        }
+        // Values may be null to remove a key
+        const plainObject = typeof metadata === "object" && metadata !== null && Object.getPrototypeOf(metadata) === Object.prototype;
+        if (metadata !== undefined && !(plainObject && Object.values(metadata).every(v => v === null || typeof v === "string"))) {
+            return NextResponse.json({ error: "metadata must be an object of string or null values" }, { status: 400 });
+        }
 
-        return new Response(stream, { headers: { "Content-Type": "application/x-ndjson" } });
+        const asset = await cdn.updateMetadata(id, { metadata, tags, folder });
+        return NextResponse.json({ success: true, asset });
     } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : "Unknown error";
-        return NextResponse.json({ error: message }, { status: 500 });
+        return errorResponse(error);
     }
 }
+
+export async function DELETE(req: NextRequest) {
+    return deleteAssets(req, ({ id, path }) => {
+        if (typeof id !== "string" || typeof path !== "string" || !id || !path) throw new ValidationError("Missing ID or path");
+        return { id, path };
+    });
+}
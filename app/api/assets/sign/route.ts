@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCDN } from "../../../../lib/cdn";
+import { authorize } from "../../../../lib/auth";
+import { throttle } from "../../../../lib/throttle";
+import { errorResponse } from "../../../../lib/errors";
+
+export const runtime = "edge";
+
+// Mints signed origin links for an asset (by id or path) when CDN_SIGNING_SECRET is set
+export async function POST(req: NextRequest) {
+    const denied = (await throttle(req)) ?? authorize(req, "reader");
+    if (denied) return denied;
+
+    try {
+        const { id, expiresIn, ip, disposition } = await req.json();
+        if (!id) {
+            return NextResponse.json({ error: "Missing ID" }, { status: 400 });
+        }
+        if (expiresIn !== undefined && !(Number.isInteger(expiresIn) && expiresIn > 0)) {
+            return NextResponse.json({ error: "expiresIn must be a positive number of seconds" }, { status: 400 });
+        }
+        if (disposition !== undefined && disposition !== "inline" && disposition !== "attachment") {
+            return NextResponse.json({ error: "disposition must be 'inline' or 'attachment'" }, { status: 400 });
+        }
+
+        const cdn = createCDN();
+        const asset = await cdn.getAsset(id);
+        if (!asset || asset.trashedAt) {
+            return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+        }
+
+        const { origin, stable } = cdn.resolveLinks(asset, { expiresIn, ip, disposition });
+        return NextResponse.json({ origin, stable });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCDN } from "../../../../lib/cdn";
+import { authorize } from "../../../../lib/auth";
+import { throttle } from "../../../../lib/throttle";
+import { errorResponse } from "../../../../lib/errors";
+
+export const runtime = "edge";
+
+export async function GET(req: NextRequest) {
+    const denied = (await throttle(req)) ?? authorize(req, "reader");
+    if (denied) return denied;
+
+    try {
+        const assets = await createCDN().listTrash();
+        return NextResponse.json({ assets });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
+
+// Restore: takes an asset out of the trash
+export async function POST(req: NextRequest) {
+    const denied = authorize(req, "uploader");
+    if (denied) return denied;
+
+    try {
+        const { id } = await req.json();
+        if (!id) {
+            return NextResponse.json({ error: "Missing ID" }, { status: 400 });
+        }
+
+        const asset = await createCDN().restore(id);
+        return NextResponse.json({ success: true, asset });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
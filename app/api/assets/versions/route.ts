@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GithubCDN } from "../../../../github_cdn_package/src/index";
+import { createCDN } from "../../../../lib/cdn";
+import { authorize } from "../../../../lib/auth";
+import { throttle } from "../../../../lib/throttle";
+import { errorResponse } from "../../../../lib/errors";
+
+export const runtime = "edge";
+
+export async function GET(req: NextRequest) {
+    const denied = (await throttle(req)) ?? authorize(req, "reader");
+    if (denied) return denied;
+
+    try {
+        const id = req.nextUrl.searchParams.get("id");
+        if (!id) {
+            return NextResponse.json({ error: "Missing ID" }, { status: 400 });
+        }
+
+        const { asset } = await createCDN().resolveVersion(id);
+        return NextResponse.json({ current: asset.version ?? 1, versions: GithubCDN.versionsOf(asset) });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
+
+// Rollback: makes a stored version the one served by default
+export async function POST(req: NextRequest) {
+    const denied = authorize(req, "uploader");
+    if (denied) return denied;
+
+    try {
+        const { id, version } = await req.json();
+        if (!id || !Number.isInteger(version)) {
+            return NextResponse.json({ error: "Missing ID or version" }, { status: 400 });
+        }
+
+        const asset = await createCDN().rollback(id, version);
+        return NextResponse.json({ success: true, asset });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
@@ -1,33 +1,169 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GithubCDN } from "../../../github_cdn_package/src/index";
+import { GithubCDN, CDNManifest, CDNRange, CDNSignatureCheck } from "../../../github_cdn_package/src/index";
+import { createCDN } from "../../../lib/cdn";
+import { authorize, roleOf } from "../../../lib/auth";
+import { throttle } from "../../../lib/throttle";
+import { clientIp } from "../../../lib/client-ip";
+import { errorResponse } from "../../../lib/errors";
 
 export const runtime = "edge";
 
+/**
+ * Validator of a stored file: its whole-file SHA-256, or for legacy uploads its manifest id and upload time.
+ */
+const strongETag = (manifest: CDNManifest) =>
+  manifest.digest ? `"sha256-${manifest.digest}"` : `"${manifest.id}-${Date.parse(manifest.uploadedAt).toString(36)}"`;
+
+/**
+ * True when the client's copy is current: If-None-Match (weak comparison) or, without it, If-Modified-Since.
+ * Pass no `uploadedAt` when only the ETag can tell: after a rollback the current version is older than the client's copy.
+ */
+function notModified(req: NextRequest, etag: string, uploadedAt: string | null): boolean {
+  const ifNoneMatch = req.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some(tag => opaque(tag) === opaque(etag));
+  }
+  if (!uploadedAt) return false;
+  const since = Date.parse(req.headers.get("if-modified-since") ?? "");
+  // HTTP dates have second precision
+  return since >= Math.floor(Date.parse(uploadedAt) / 1000) * 1000;
+}
+
+/**
+ * Resolves a request to the stored path, shard and commit of the version to serve.
+ * Trashed assets are not served; unregistered paths (e.g. before a sync) still are, from the branch head.
+ * Registry entries come from the edge cache for CDN_CACHE_TTL seconds, so repeat requests skip the registry;
+ * trashing, restoring, purging and rolling back an asset drop its entries.
+ */
+async function lookup(cdn: GithubCDN, id: string | null, file: string | null, version: string | null, shard?: string):
+  Promise<{ file: string; shard?: string; commit?: string } | { error: string }> {
+  const asset = await cdn.getCachedAsset((id ?? file)!);
+  if ((!asset && id) || asset?.trashedAt) return { error: "Asset not found" };
+
+  // Asset ids and explicit versions resolve through the registry; `?id=` alone serves the current version
+  if (asset && (id || version !== null)) {
+    const resolved = GithubCDN.versionOf(asset, version === null ? undefined : Number(version));
+    if (!resolved) return { error: "Version not found" };
+    return { file: resolved.path, shard: resolved.shard, commit: resolved.commit };
+  }
+  return {
+    file: file!,
+    shard,
+    commit: asset ? GithubCDN.versionsOf(asset).find(v => v.path === file)?.commit : undefined
+  };
+}
+
 export async function GET(req: NextRequest) {
-  const cdn = new GithubCDN({
-    token: process.env.GITHUB_TOKEN!,
-    owner: process.env.GITHUB_OWNER!,
-    repo: process.env.GITHUB_REPO!,
-  });
-  const file = req.nextUrl.searchParams.get("file");
-  if (!file) return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  // Each miss costs several GitHub calls, so clients get a bucket of their own
+  const throttled = await throttle(req);
+  if (throttled) return throttled;
+
+  const cdn = createCDN();
+  const params = req.nextUrl.searchParams;
+  let file = params.get("file");
+  const id = params.get("id");
+  const version = params.get("version");
+  if (!file && !id) return NextResponse.json({ error: "Missing file" }, { status: 400 });
+
+  // Readers' API keys are enough; anonymous clients need a link signed by `resolveLinks`/`signLink`
+  // when CDN_SIGNING_SECRET is set, and are refused when only API keys are configured
+  let signature: CDNSignatureCheck = { valid: true };
+  if (!roleOf(req)) {
+    if (!cdn.signsLinks) {
+      const denied = authorize(req, "reader");
+      if (denied) return denied;
+    }
+    signature = cdn.verifyLink(params, clientIp(req));
+    if (!signature.valid) return NextResponse.json({ error: signature.reason }, { status: 403 });
+  }
+  if (version !== null && !(Number(version) > 0)) {
+    return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+  }
+  // Sharded assets carry their repository in the origin link; otherwise the registry is consulted
+  let shard = params.get("shard") ?? undefined;
 
   try {
-    // Core multi-source fetch logic from SDK
-    // Now returns both the bitstream and the manifest for headers
-    const { stream, manifest } = await cdn.fetch(file);
-
-    return new Response(stream, {
-      headers: {
-        "Content-Type": manifest.mimeType || "application/octet-stream",
-        "Content-Length": manifest.totalSize.toString(),
-        "Content-Disposition": `inline; filename="${manifest.fileName}"`,
-        "Cache-Control": "public, max-age=31536000, immutable",
-        "X-Content-Type-Options": "nosniff",
+    const target = await lookup(cdn, id, file, version, shard);
+    if ("error" in target) return NextResponse.json({ error: target.error }, { status: 404 });
+    file = target.file;
+    shard = target.shard;
+    const { commit } = target;
+    const { manifest } = await cdn.getManifest(file, undefined, shard, commit);
+
+    const rangeHeader = req.headers.get("range");
+    const ifRange = req.headers.get("if-range");
+    // A stale If-Range validator asks for the whole (changed) file instead
+    const ranged = !!rangeHeader && (!ifRange || ifRange === strongETag(manifest));
+
+    // Gzip chunks concatenate into a valid gzip stream, so they can be passed through untouched
+    const acceptsGzip = /\bgzip\b/.test(req.headers.get("accept-encoding") || "");
+    const passThrough = !ranged && manifest.compression?.codec === "gzip" && acceptsGzip;
+
+    const etag = passThrough ? strongETag(manifest).replace(/"$/, '-gzip"') : strongETag(manifest);
+    // `?id=` without a version follows the current version, so caches must revalidate it (cheap with the ETag);
+    // a concrete path or version never changes
+    const followsCurrent = id !== null && version === null;
+    const headers: Record<string, string> = {
+      "Content-Type": manifest.mimeType || "application/octet-stream",
+      "Content-Length": manifest.totalSize.toString(),
+      "Content-Disposition": `${params.get("disposition") === "attachment" ? "attachment" : "inline"}; filename="${manifest.fileName}"`,
+      "Cache-Control": followsCurrent ? "public, no-cache" : "public, max-age=31536000, immutable",
+      "Accept-Ranges": "bytes",
+      "X-Content-Type-Options": "nosniff",
+      "ETag": etag,
+      "Last-Modified": new Date(manifest.uploadedAt).toUTCString(),
+    };
+
+    // Signed responses must not outlive their link in shared caches
+    if (signature.expiresAt) {
+      const remaining = Math.max(0, Math.floor((signature.expiresAt.getTime() - Date.now()) / 1000));
+      headers["Cache-Control"] = followsCurrent ? "private, no-cache" : `private, max-age=${remaining}`;
+    }
+    if (manifest.compression) headers["Vary"] = "Accept-Encoding";
+
+    // The client's copy is current: answer before a single chunk is read
+    if (notModified(req, etag, followsCurrent ? null : manifest.uploadedAt)) {
+      for (const name of ["Content-Length", "Content-Type", "Content-Disposition"]) delete headers[name];
+      return new Response(null, { status: 304, headers });
+    }
+
+    // Conditionals are answered first (RFC 9110, section 13.2.2); then the byte window is resolved
+    // before touching any chunk
+    let range: CDNRange | null = null;
+    if (ranged) {
+      try {
+        range = GithubCDN.parseRange(rangeHeader!, manifest.totalSize);
+      } catch (err: unknown) {
+        if (!(err instanceof RangeError)) throw err;
+        return new Response(null, {
+          status: 416,
+          headers: { "Content-Range": `bytes */${manifest.totalSize}` }
+        });
       }
-    });
+    }
+
+    // Core multi-source fetch logic from SDK
+    // Only the chunks covering the range are downloaded; cached chunks skip GitHub
+    const { stream, encoding } = await cdn.fetch(file, undefined, { manifest, range, decompress: !passThrough, shard, commit });
+
+    if (encoding && manifest.compression) {
+      headers["Content-Encoding"] = encoding;
+      headers["Content-Length"] = manifest.compression.storedSize.toString();
+    }
+
+    if (range) {
+      headers["Content-Length"] = (range.end - range.start + 1).toString();
+      headers["Content-Range"] = `bytes ${range.start}-${range.end}/${manifest.totalSize}`;
+      return new Response(stream, { status: 206, headers });
+    }
+
+    if (manifest.digest) {
+      headers["Digest"] = `sha-256=${Buffer.from(manifest.digest, "hex").toString("base64")}`;
+    }
+
+    return new Response(stream, { headers });
   } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCDN } from "../../../lib/cdn";
+import { authorize } from "../../../lib/auth";
+import { throttle } from "../../../lib/throttle";
+import { errorResponse } from "../../../lib/errors";
+
+export const runtime = "edge";
+
+// GitHub API budget as seen by this server; `?refresh=1` asks GitHub first (costs no quota)
+export async function GET(req: NextRequest) {
+    const denied = (await throttle(req)) ?? authorize(req, "reader");
+    if (denied) return denied;
+
+    try {
+        const status = await createCDN().rateLimit(req.nextUrl.searchParams.has("refresh"));
+        return NextResponse.json(status, { headers: { "Cache-Control": "no-store" } });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
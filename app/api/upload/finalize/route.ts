@@ -1,82 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
 import { GithubCDN } from "../../../../github_cdn_package/src/index";
+import { createCDN } from "../../../../lib/cdn";
+import { authorize } from "../../../../lib/auth";
+import { errorResponse } from "../../../../lib/errors";
 
 export const runtime = "edge";
 
 export async function POST(req: NextRequest) {
+    const denied = authorize(req, "uploader");
+    if (denied) return denied;
+
     try {
-        const cdn = new GithubCDN({
-            token: process.env.GITHUB_TOKEN!,
-            owner: process.env.GITHUB_OWNER!,
-            repo: process.env.GITHUB_REPO!,
-        });
-        const {
-            headSha,
-            chunks,
-            manifest,
-            pathPrefix
-        } = await req.json();
+        const cdn = createCDN();
+        const { sessionId, digest, metadata, tags, folder } = await req.json();
 
-        if (!headSha || !chunks || !manifest || !pathPrefix) {
+        if (!sessionId) {
             return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
         }
 
-        // 1. Create Manifest Blob
-        const manifestSha = await cdn.createBlob(Buffer.from(JSON.stringify(manifest)));
-
-        // 2. Prepare Tree Items
-        const treeItems = chunks.map((sha: string, index: number) => ({
-            path: `${pathPrefix}/chunk_${index + 1}`,
-            mode: "100644",
-            type: "blob",
-            sha
-        }));
-
-        // Add manifest to tree
-        treeItems.push({
-            path: `${pathPrefix}/manifest.json`,
-            mode: "100644",
-            type: "blob",
-            sha: manifestSha
-        });
-
-        // 3. Update Registry
-        const registry = await cdn.list();
-        const newAsset = {
-            id: manifest.id,
-            name: manifest.fileName,
-            size: manifest.totalSize,
-            type: manifest.mimeType,
-            path: pathPrefix,
-            uploadedAt: manifest.uploadedAt,
-            links: cdn.resolveLinks({ path: pathPrefix, id: manifest.id })
-        };
-        registry.unshift(newAsset);
-
-        const registrySha = await cdn.createBlob(Buffer.from(JSON.stringify(registry, null, 2)));
-        treeItems.push({
-            path: `registry.json`,
-            mode: "100644",
-            type: "blob",
-            sha: registrySha
-        });
-
-        // 4. Create Tree
-        const treeSha = await cdn.createTree(headSha, treeItems);
+        const session = await cdn.getSession(sessionId);
+        if (!session) {
+            return NextResponse.json({ error: "Upload session not found or expired" }, { status: 404 });
+        }
 
-        // 5. Create Commit
-        const commitSha = await cdn.createCommit(
-            `CDN Upload: ${manifest.fileName}`,
-            treeSha,
-            [headSha]
-        );
+        const missing = GithubCDN.missingChunks(session);
+        if (missing.length) {
+            return NextResponse.json({ error: "Upload incomplete", missing }, { status: 409 });
+        }
 
-        // 6. Update Ref
-        await cdn.updateRef(commitSha);
+        // Manifest and tree come from the chunks recorded on the session, not from the client
+        const asset = await cdn.finalizeSession(sessionId, { digest, metadata, tags, folder });
 
-        return NextResponse.json({ success: true, asset: newAsset });
+        return NextResponse.json({ success: true, asset });
     } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : "Unknown error";
-        return NextResponse.json({ error: message }, { status: 500 });
+        return errorResponse(error);
     }
 }
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GithubCDN } from "../../../../github_cdn_package/src/index";
+import { createCDN } from "../../../../lib/cdn";
+import { authorize } from "../../../../lib/auth";
+import { errorResponse } from "../../../../lib/errors";
 
 export const runtime = "edge";
 
-export async function GET() {
+export async function POST(req: NextRequest) {
+    const denied = authorize(req, "uploader");
+    if (denied) return denied;
+
     try {
         const token = process.env.GITHUB_TOKEN;
         const owner = process.env.GITHUB_OWNER;
@@ -20,25 +25,18 @@ export async function GET() {
             }, { status: 500 });
         }
 
-        const cdn = new GithubCDN({
-            token,
-            owner,
-            repo,
-        });
-
-        const headSha = await cdn.getRef();
-        const uniqueId = Math.random().toString(36).substring(2, 10) + "_" + Date.now().toString(36);
-        const now = new Date();
-        const pathPrefix = `uploads/${now.getFullYear()}_${String(now.getMonth() + 1).padStart(2, "0")}/${uniqueId}`;
-
-        return NextResponse.json({
-            headSha,
-            uniqueId,
-            pathPrefix,
-            timestamp: now.toISOString()
-        });
+        const { fileName, mimeType, totalSize, chunkSize, metadata, tags, folder, replaces } = await req.json();
+        if (!fileName || typeof totalSize !== "number") {
+            return NextResponse.json({ error: "fileName and totalSize are required" }, { status: 400 });
+        }
+
+        const cdn = createCDN();
+
+        // Persisted server-side so the upload survives reloads, redeploys and other edge instances
+        const session = await cdn.createSession({ fileName, mimeType, totalSize, chunkSize, metadata, tags, folder, replaces });
+
+        return NextResponse.json({ session });
     } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : "Unknown error";
-        return NextResponse.json({ error: message }, { status: 500 });
+        return errorResponse(error);
     }
 }
@@ -1,28 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GithubCDN } from "../../../github_cdn_package/src/index";
+import { createCDN } from "../../../lib/cdn";
+import { authorize } from "../../../lib/auth";
+import { errorResponse } from "../../../lib/errors";
 
 export const runtime = "edge";
 
 export async function POST(req: NextRequest) {
+  const denied = authorize(req, "uploader");
+  if (denied) return denied;
+
   try {
-    const cdn = new GithubCDN({
-      token: process.env.GITHUB_TOKEN!,
-      owner: process.env.GITHUB_OWNER!,
-      repo: process.env.GITHUB_REPO!,
-    });
+    const cdn = createCDN();
     const formData = await req.formData();
     const chunk = formData.get("chunk") as Blob;
+    const sessionId = formData.get("session");
+    const index = Number(formData.get("index"));
 
     if (!chunk) {
       return NextResponse.json({ error: "No chunk uploaded" }, { status: 400 });
     }
 
-    const buffer = await chunk.arrayBuffer();
-    const sha = await cdn.createBlob(buffer);
+    if (typeof sessionId !== "string" || !index) {
+      return NextResponse.json({ error: "Chunk uploads require a session and index" }, { status: 400 });
+    }
+
+    if (!(await cdn.getSession(sessionId))) {
+      return NextResponse.json({ error: "Upload session not found or expired" }, { status: 404 });
+    }
+
+    // Compresses, seals and stores the chunk, then records it on the session
+    const { sha, digest, encodedSize } = await cdn.uploadChunk(sessionId, index, await chunk.arrayBuffer());
 
-    return NextResponse.json({ sha });
+    return NextResponse.json({ sha, digest, encodedSize, index });
   } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GithubCDN } from "../../../../github_cdn_package/src/index";
+import { createCDN } from "../../../../lib/cdn";
+import { authorize } from "../../../../lib/auth";
+import { errorResponse } from "../../../../lib/errors";
+
+export const runtime = "edge";
+
+export async function GET(req: NextRequest) {
+    const denied = authorize(req, "uploader");
+    if (denied) return denied;
+
+    try {
+        const sessionId = req.nextUrl.searchParams.get("session");
+        if (!sessionId) {
+            return NextResponse.json({ error: "Missing session" }, { status: 400 });
+        }
+
+        const session = await createCDN().getSession(sessionId);
+        if (!session) {
+            return NextResponse.json({ error: "Upload session not found or expired" }, { status: 404 });
+        }
+
+        // Lets a client that reconnects skip every chunk the server already holds
+        return NextResponse.json({
+            session,
+            uploaded: Object.keys(session.chunks).map(Number).sort((a, b) => a - b),
+            missing: GithubCDN.missingChunks(session)
+        });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
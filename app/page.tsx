@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { CDNAsset } from "@/github_cdn_package/src/types";
+import { CDNAsset, CDNRateLimitStatus } from "@/github_cdn_package/src/types";
 
 interface LogEntry {
   id: string;
@@ -10,17 +10,32 @@ interface LogEntry {
   message: string;
 }
 
+const API_KEY_STORAGE = "cdn-api-key";
+
+/**
+ * fetch() with the API key saved in this browser, for deployments that set CDN_API_KEYS.
+ */
+const api = (url: string, init: RequestInit = {}) => {
+  const key = localStorage.getItem(API_KEY_STORAGE);
+  return fetch(url, key ? { ...init, headers: { ...init.headers, Authorization: `Bearer ${key}` } } : init);
+};
+
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
-  const [rateLimit, setRateLimit] = useState<{ tokens: number; percentage: number } | null>(null);
+  const [rateLimit, setRateLimit] = useState<CDNRateLimitStatus | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string>("");
   const [mimeType, setMimeType] = useState<string>("");
   const [assets, setAssets] = useState<CDNAsset[]>([]);
+  const [trash, setTrash] = useState<CDNAsset[]>([]);
+  const [showTrash, setShowTrash] = useState(false);
+  // Whether deletes go to the trash (CDN_SOFT_DELETE), as reported by /api/assets
+  const [softDelete, setSoftDelete] = useState(true);
   const [isLoadingAssets, setIsLoadingAssets] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [uploadedPath, setUploadedPath] = useState<string>("");
+  const [apiKey, setApiKey] = useState("");
   const logEndRef = useRef<HTMLDivElement>(null);
   const consoleRef = useRef<HTMLDivElement>(null);
 
@@ -29,7 +44,10 @@ export default function Home() {
   };
 
   useEffect(() => {
+    setApiKey(localStorage.getItem(API_KEY_STORAGE) ?? "");
+    fetchRateLimit(true);
     fetchAssets();
+    fetchTrash();
     addLog("System initialized. Ready for CDN operations.", "info");
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -48,19 +66,39 @@ export default function Home() {
     setLogs((prev) => [...prev.slice(-49), newLog]);
   };
 
+  const fetchRateLimit = async (refresh = false) => {
+    try {
+      const res = await api(`/api/rate-limit${refresh ? "?refresh=1" : ""}`, { cache: 'no-store' });
+      if (res.ok) setRateLimit(await res.json());
+    } catch (err: unknown) {
+      console.error(err);
+    }
+  };
+
   const fetchAssets = async () => {
     setIsLoadingAssets(true);
-    addLog("Polling registry.json from GitHub...", "process");
+    addLog("Polling registry pages from GitHub...", "process");
     try {
-      const res = await fetch("/api/assets", { cache: 'no-store' });
-      const data = await res.json();
-      if (data.assets) {
-        setAssets(data.assets);
-        addLog(`Registry loaded. ${data.assets.length} assets mapped.`, "success");
-      }
+      const loaded: CDNAsset[] = [];
+      let cursor: string | null = null;
+      let missing = false;
+      do {
+        const query: string = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+        const res = await api(`/api/assets${query}`, { cache: 'no-store' });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        loaded.push(...data.assets);
+        cursor = data.cursor;
+        missing = data.registryMissing;
+        setSoftDelete(data.softDelete !== false);
+      } while (cursor);
+      setAssets(loaded);
+      addLog(missing ? "No registry on the branch yet. Upload a file to create it." : `Registry loaded. ${loaded.length} assets mapped.`, "success");
+      fetchRateLimit();
     } catch (err: unknown) {
       console.error(err);
-      addLog("Failed to synchronize with asset registry.", "error");
+      const message = err instanceof Error ? err.message : "Unknown error";
+      addLog(`Failed to synchronize with asset registry: ${message}`, "error");
     } finally {
       setIsLoadingAssets(false);
     }
@@ -76,69 +114,79 @@ export default function Home() {
 
     try {
       const startTime = Date.now();
+      const CHUNK_SIZE = 4 * 1024 * 1024; // 4MB to stay safe under Vercel's 4.5MB limit
+      const sessionKey = `cdn-session:${file.name}:${file.size}:${file.lastModified}`;
 
-      // Stage 1: Init
+      // Stage 1: Init (or resume a session left behind by a reload or dropped connection)
       addLog("Stage 1: Bootstrapping upload session...", "process");
-      const initRes = await fetch("/api/upload/init");
-      if (!initRes.ok) throw new Error("Failed to initialize upload session");
-      const { headSha, uniqueId, pathPrefix, timestamp } = await initRes.json();
-      addLog(`Session ID: ${uniqueId.substring(0, 8)}`, "success");
+      let session = null;
+      let missing: number[] = [];
+      const savedId = localStorage.getItem(sessionKey);
+      if (savedId) {
+        const statusRes = await api(`/api/upload/status?session=${encodeURIComponent(savedId)}`);
+        if (statusRes.ok) {
+          ({ session, missing } = await statusRes.json());
+          addLog(`Resuming session ${session.id.substring(0, 8)}: ${missing.length}/${session.totalChunks} chunks left`, "info");
+        } else {
+          localStorage.removeItem(sessionKey);
+        }
+      }
+      if (!session) {
+        const initRes = await api("/api/upload/init", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            fileName: file.name,
+            mimeType: file.type || "application/octet-stream",
+            totalSize: file.size,
+            chunkSize: CHUNK_SIZE
+          })
+        });
+        if (!initRes.ok) throw new Error("Failed to initialize upload session");
+        ({ session } = await initRes.json());
+        missing = Array.from({ length: session.totalChunks }, (_, i) => i + 1);
+        localStorage.setItem(sessionKey, session.id);
+        addLog(`Session ID: ${session.id.substring(0, 8)}`, "success");
+      }
 
       // Stage 2: Chunking
-      const CHUNK_SIZE = 4 * 1024 * 1024; // 4MB to stay safe under Vercel's 4.5MB limit
-      const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
-      const chunkShas: string[] = [];
+      addLog(`Stage 2: Fragmenting into ${session.totalChunks} chunks (4MB each)...`, "process");
 
-      addLog(`Stage 2: Fragmenting into ${totalChunks} chunks (4MB each)...`, "process");
+      for (const index of missing) {
+        const start = (index - 1) * session.chunkSize;
+        const chunk = file.slice(start, Math.min(start + session.chunkSize, file.size));
 
-      for (let i = 0; i < totalChunks; i++) {
-        const start = i * CHUNK_SIZE;
-        const end = Math.min(start + CHUNK_SIZE, file.size);
-        const chunk = file.slice(start, end);
-
-        addLog(`Pushing chunk ${i + 1}/${totalChunks}...`, "process");
+        addLog(`Pushing chunk ${index}/${session.totalChunks}...`, "process");
 
         const formData = new FormData();
         formData.append("chunk", chunk);
+        formData.append("session", session.id);
+        formData.append("index", String(index));
 
-        const chunkRes = await fetch("/api/upload", {
+        const chunkRes = await api("/api/upload", {
           method: "POST",
           body: formData
         });
 
-        if (!chunkRes.ok) throw new Error(`Failed to upload chunk ${i + 1}`);
-        const { sha } = await chunkRes.json();
-        chunkShas.push(sha);
+        if (!chunkRes.ok) throw new Error(`Failed to upload chunk ${index}. Retry to resume.`);
       }
 
-      // Stage 3: Finalize
+      addLog("Computing SHA-256 integrity digest...", "process");
+      const fileHash = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+      const digest = Array.from(new Uint8Array(fileHash), b => b.toString(16).padStart(2, "0")).join("");
+
+      // Stage 3: Finalize from the chunks the server recorded on the session
       addLog("Stage 3: Orchestrating atomic commit...", "process");
-      const manifest = {
-        id: uniqueId,
-        fileName: file.name,
-        uniqueId,
-        totalChunks,
-        chunkSize: CHUNK_SIZE,
-        totalSize: file.size,
-        mimeType: file.type || "application/octet-stream",
-        pathPrefix,
-        uploadedAt: timestamp,
-        optimized: true
-      };
-
-      const finalizeRes = await fetch("/api/upload/finalize", {
+      const finalizeRes = await api("/api/upload/finalize", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          headSha,
-          chunks: chunkShas,
-          manifest,
-          pathPrefix
-        })
+        body: JSON.stringify({ sessionId: session.id, digest })
       });
 
       if (!finalizeRes.ok) throw new Error("Failed to finalize upload");
       const { asset } = await finalizeRes.json();
+      localStorage.removeItem(sessionKey);
+      const pathPrefix = asset.path;
 
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
       addLog(`Stage 4: Commit verified. Hash: ${asset.id.substring(0, 7)}`, "success");
@@ -157,7 +205,10 @@ export default function Home() {
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
   const handleDelete = async (id: string, path: string, name: string) => {
-    if (!confirm(`Are you sure you want to PERMANENTLY purge "${name}" and all its physical data from GitHub?`)) return;
+    const question = softDelete
+      ? `Move "${name}" to the trash? It can be restored until the retention window purges it.`
+      : `Permanently delete "${name}"? Every version is removed from the repository and cannot be restored.`;
+    if (!confirm(question)) return;
 
     setDeletingId(id);
     scrollToConsole();
@@ -165,7 +216,7 @@ export default function Home() {
     console.log("[CDN] Purging Asset:", { id, path, name });
 
     try {
-      const res = await fetch("/api/assets", {
+      const res = await api("/api/assets", {
         method: "DELETE",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ id, path })
@@ -203,6 +254,7 @@ export default function Home() {
           } else if (data.type === "done") {
             addLog(`Final Status: ${data.message}`, "success");
             setAssets(prev => prev.filter(a => a.id !== id));
+            fetchTrash();
           }
         }
       }
@@ -225,10 +277,19 @@ export default function Home() {
 
     try {
       const startTime = Date.now();
-      const res = await fetch(`/api/fetch?file=${encodeURIComponent(path)}`);
+      let res = await api(`/api/fetch?file=${encodeURIComponent(path)}`);
+      if (res.status === 403) {
+        // Link signing is enabled: mint a short-lived signed link and retry with it
+        const signRes = await api("/api/assets/sign", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id: path, expiresIn: 300 })
+        });
+        const signed = await signRes.json();
+        if (signed.origin) res = await api(signed.origin);
+      }
 
-      const statusHeader = res.headers.get("X-RateLimit-Status");
-      if (statusHeader) setRateLimit(JSON.parse(statusHeader));
+      fetchRateLimit();
 
       if (!res.ok) {
         const err = await res.json();
@@ -256,12 +317,44 @@ export default function Home() {
     }
   };
 
+  const fetchTrash = async () => {
+    try {
+      const res = await api("/api/assets/trash", { cache: 'no-store' });
+      const data = await res.json();
+      if (data.assets) setTrash(data.assets);
+    } catch (err: unknown) {
+      console.error(err);
+    }
+  };
+
+  const handleRestore = async (id: string, name: string) => {
+    setDeletingId(id);
+    addLog(`Restoring from trash: ${name}`, "process");
+    try {
+      const res = await api("/api/assets/trash", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server responded with ${res.status}`);
+      addLog(`Restored: ${name}`, "success");
+      setTrash(prev => prev.filter(a => a.id !== id));
+      fetchAssets();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      addLog(`Restore Failed: ${message}`, "error");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
   const handleSync = async () => {
     scrollToConsole();
     addLog("Scanning GitHub Repository for untracked manifests...", "process");
     setIsLoadingAssets(true);
     try {
-      const res = await fetch("/api/admin/recover", { method: "POST" });
+      const res = await api("/api/admin/recover", { method: "POST" });
       const data = await res.json();
       if (data.success) {
         addLog(`History Recovery complete. ${data.recoveredCount} assets synchronized.`, "success");
@@ -298,6 +391,18 @@ export default function Home() {
           <p className="text-zinc-500 text-sm md:text-base max-w-xl mx-auto font-medium">
             Exploring High-Performance File Chunking and Atomic Synchronization via GitHub Infrastructure.
           </p>
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => {
+              setApiKey(e.target.value);
+              if (e.target.value) localStorage.setItem(API_KEY_STORAGE, e.target.value);
+              else localStorage.removeItem(API_KEY_STORAGE);
+            }}
+            onBlur={() => { fetchAssets(); fetchTrash(); }}
+            placeholder="API key (if required)"
+            className="w-64 px-3 py-1.5 bg-black/40 border border-zinc-800 rounded-lg text-xs text-zinc-300 placeholder-zinc-600 focus:outline-none focus:border-blue-500/40"
+          />
         </header>
 
         {/* Operational Grid */}
@@ -359,7 +464,7 @@ export default function Home() {
                 <div className="p-4 bg-black/40 rounded-2xl border border-zinc-800/50">
                   <div className="flex justify-between items-center mb-2">
                     <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">GitHub API Tokens</span>
-                    <span className={`text-xs font-mono font-bold ${rateLimit && rateLimit.tokens < 500 ? "text-red-400" : "text-emerald-400"}`}>
+                    <span className={`text-xs font-mono font-bold ${rateLimit?.throttled ? "text-red-400" : "text-emerald-400"}`}>
                       {rateLimit?.tokens ?? 5000}
                     </span>
                   </div>
@@ -474,7 +579,7 @@ export default function Home() {
                 Global Registry
                 <span className="text-[10px] font-bold text-zinc-600 bg-zinc-900 px-2 py-0.5 rounded border border-zinc-800 tracking-normal">ZERO-DB MODE</span>
               </h2>
-              <p className="text-zinc-500 text-xs font-medium italic">Synchronized against repository root/registry.json</p>
+              <p className="text-zinc-500 text-xs font-medium italic">Synchronized against repository registry/index.json</p>
             </div>
             <div className="flex gap-3">
               <button
@@ -483,6 +588,12 @@ export default function Home() {
               >
                 Deep Sync
               </button>
+              <button
+                onClick={() => setShowTrash(prev => !prev)}
+                className={`text-[10px] font-black uppercase tracking-widest transition-colors ${showTrash ? "text-amber-400" : "text-zinc-500 hover:text-white"}`}
+              >
+                {showTrash ? "Back to Registry" : `Trash (${trash.length})`}
+              </button>
               <button
                 onClick={fetchAssets}
                 className="text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors"
@@ -498,17 +609,17 @@ export default function Home() {
                 <div key={i} className="h-44 bg-zinc-900/20 border border-zinc-800 rounded-3xl animate-pulse" />
               ))}
             </div>
-          ) : assets.length === 0 ? (
+          ) : (showTrash ? trash : assets).length === 0 ? (
             <div className="text-center py-20 bg-zinc-900/10 border-2 border-dashed border-zinc-800/40 rounded-[3rem]">
               <div className="w-16 h-16 bg-zinc-900 border border-zinc-800 rounded-full mx-auto flex items-center justify-center mb-4 text-zinc-700">
                 <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M4 7v10c0 2 1.5 3 3.5 3h9c2 0 3.5-1 3.5-3V7c0-2-1.5-3-3.5-3h-9C5.5 4 4 5 4 7z"></path></svg>
               </div>
-              <p className="text-zinc-600 font-bold uppercase tracking-widest text-xs">Registry Empty</p>
+              <p className="text-zinc-600 font-bold uppercase tracking-widest text-xs">{showTrash ? "Trash Empty" : "Registry Empty"}</p>
               <p className="text-zinc-700 text-[10px] mt-2 italic">Upload a file to initialize the atomic index.</p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {assets.map((asset: CDNAsset) => (
+              {(showTrash ? trash : assets).map((asset: CDNAsset) => (
                 <div key={asset.id} className="group relative bg-zinc-900/20 border border-zinc-800/60 p-5 rounded-3xl hover:bg-zinc-900/40 hover:border-zinc-700 transition-all duration-300 shadow-xl overflow-hidden">
                   <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-blue-500/5 to-transparent pointer-events-none" />
 
@@ -523,15 +634,20 @@ export default function Home() {
                       <p className="text-[10px] text-zinc-600 font-mono">{(asset.size / 1024 / 1024).toFixed(2)} MB • {asset.type.split('/')[1].toUpperCase()}</p>
                     </div>
                     <button
-                      onClick={() => handleDelete(asset.id, asset.path, asset.name)}
+                      onClick={() => showTrash ? handleRestore(asset.id, asset.name) : handleDelete(asset.id, asset.path, asset.name)}
                       disabled={deletingId === asset.id}
+                      title={showTrash ? "Restore" : softDelete ? "Move to trash" : "Delete permanently"}
                       className={`p-2 rounded-xl transition-all ${deletingId === asset.id
                         ? "text-amber-400 bg-amber-400/10 cursor-wait"
-                        : "text-zinc-700 hover:text-red-400 hover:bg-red-400/10"
+                        : showTrash
+                          ? "text-zinc-700 hover:text-emerald-400 hover:bg-emerald-400/10"
+                          : "text-zinc-700 hover:text-red-400 hover:bg-red-400/10"
                         }`}
                     >
                       {deletingId === asset.id ? (
                         <div className="w-3.5 h-3.5 border-2 border-amber-400/20 border-t-amber-400 rounded-full animate-spin" />
+                      ) : showTrash ? (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 1 0 3-6.7"></path><path d="M3 3v6h6"></path></svg>
                       ) : (
                         <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"></path><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"></path><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path></svg>
                       )}
@@ -0,0 +1,287 @@
+import { CDNStorageBackend, CDNTreeItem } from "../types.js";
+import { apiError } from "../errors.js";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+type GitObjectType = "blob" | "tree" | "commit";
+
+interface TreeEntry {
+    mode: string;
+    name: string;
+    sha: string;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string) => {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+    let offset = 0;
+    for (const p of parts) {
+        out.set(p, offset);
+        offset += p.byteLength;
+    }
+    return out;
+};
+
+/**
+ * Git object database with GitHub's Git Data API semantics: real SHA-1 object ids,
+ * `base_tree` merging and non-fast-forward rejection on ref updates.
+ * Subclasses only decide where serialized objects and refs are kept.
+ */
+export abstract class GitObjectStore implements CDNStorageBackend {
+    private ready?: Promise<void>;
+
+    constructor(protected readonly branch = "main") { }
+
+    /** Loads a serialized object (`<type> <size>\0<body>`), or null if unknown. */
+    protected abstract loadObject(sha: string): Promise<Uint8Array | null>;
+    /** Persists a serialized object under its SHA. */
+    protected abstract storeObject(sha: string, data: Uint8Array): Promise<void>;
+    /** Loads the commit SHA a branch points to, or null if the branch does not exist. */
+    protected abstract loadRef(branch: string): Promise<string | null>;
+    /** Points a branch at a commit. */
+    protected abstract storeRef(branch: string, sha: string): Promise<void>;
+
+    /**
+     * Creates the default branch with an empty root commit, like a freshly initialized GitHub repo.
+     */
+    private init(): Promise<void> {
+        this.ready ??= (async () => {
+            if (await this.loadRef(this.branch)) return;
+            const tree = await this.writeObject("tree", new Uint8Array());
+            const commit = await this.createCommitObject("Initial commit", tree, []);
+            await this.storeRef(this.branch, commit);
+        })();
+        return this.ready;
+    }
+
+    private async writeObject(type: GitObjectType, body: Uint8Array): Promise<string> {
+        const data = concat([encoder.encode(`${type} ${body.byteLength}\0`), body]);
+        const sha = toHex(new Uint8Array(await crypto.subtle.digest("SHA-1", data)));
+        if (!(await this.loadObject(sha))) await this.storeObject(sha, data);
+        return sha;
+    }
+
+    private async readObject(sha: string, expected?: GitObjectType): Promise<{ type: GitObjectType; body: Uint8Array }> {
+        const data = await this.loadObject(sha);
+        if (!data) throw apiError(404, "Not Found");
+        const nul = data.indexOf(0);
+        const type = decoder.decode(data.subarray(0, nul)).split(" ")[0] as GitObjectType;
+        if (expected && type !== expected) throw apiError(422, `Object ${sha} is not a ${expected}`);
+        return { type, body: data.subarray(nul + 1) };
+    }
+
+    private parseTree(body: Uint8Array): TreeEntry[] {
+        const entries: TreeEntry[] = [];
+        let pos = 0;
+        while (pos < body.byteLength) {
+            const nul = body.indexOf(0, pos);
+            const [mode, ...name] = decoder.decode(body.subarray(pos, nul)).split(" ");
+            entries.push({ mode, name: name.join(" "), sha: toHex(body.subarray(nul + 1, nul + 21)) });
+            pos = nul + 21;
+        }
+        return entries;
+    }
+
+    private parseCommit(body: Uint8Array): { tree: string; parents: string[] } {
+        const header = decoder.decode(body).split("\n\n")[0].split("\n");
+        return {
+            tree: header.find(l => l.startsWith("tree "))!.substring(5),
+            parents: header.filter(l => l.startsWith("parent ")).map(l => l.substring(7))
+        };
+    }
+
+    /**
+     * Accepts a tree or a commit SHA (GitHub peels commits passed as `base_tree`).
+     */
+    private async peelTree(sha: string): Promise<string> {
+        const { type, body } = await this.readObject(sha);
+        return type === "commit" ? this.parseCommit(body).tree : sha;
+    }
+
+    private async flatten(treeSha: string, prefix = "", out = new Map<string, TreeEntry>()): Promise<Map<string, TreeEntry>> {
+        const { body } = await this.readObject(treeSha, "tree");
+        for (const e of this.parseTree(body)) {
+            const path = prefix + e.name;
+            if (e.mode === "40000") await this.flatten(e.sha, `${path}/`, out);
+            else out.set(path, { ...e, name: path });
+        }
+        return out;
+    }
+
+    private async writeNested(files: Map<string, TreeEntry>): Promise<string> {
+        const blobs: TreeEntry[] = [];
+        const dirs = new Map<string, Map<string, TreeEntry>>();
+        for (const [path, e] of files) {
+            const slash = path.indexOf("/");
+            if (slash === -1) {
+                blobs.push({ mode: e.mode, name: path, sha: e.sha });
+                continue;
+            }
+            const dir = path.substring(0, slash);
+            if (!dirs.has(dir)) dirs.set(dir, new Map());
+            dirs.get(dir)!.set(path.substring(slash + 1), e);
+        }
+
+        const entries = [...blobs];
+        for (const [name, children] of dirs) entries.push({ mode: "40000", name, sha: await this.writeNested(children) });
+
+        // Git orders entries bytewise, comparing directories as if they ended in "/"
+        const key = (e: TreeEntry) => e.mode === "40000" ? `${e.name}/` : e.name;
+        entries.sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+
+        return this.writeObject("tree", concat(entries.flatMap(e => [encoder.encode(`${e.mode} ${e.name}\0`), fromHex(e.sha)])));
+    }
+
+    private async createCommitObject(message: string, treeSha: string, parents: string[]): Promise<string> {
+        const stamp = `${Math.floor(Date.now() / 1000)} +0000`;
+        const lines = [
+            `tree ${treeSha}`,
+            ...parents.map(p => `parent ${p}`),
+            `author GithubCDN <cdn@localhost> ${stamp}`,
+            `committer GithubCDN <cdn@localhost> ${stamp}`,
+        ];
+        return this.writeObject("commit", encoder.encode(`${lines.join("\n")}\n\n${message}\n`));
+    }
+
+    private async isAncestor(ancestor: string, sha: string): Promise<boolean> {
+        const queue = [sha];
+        const seen = new Set<string>();
+        while (queue.length) {
+            const current = queue.shift()!;
+            if (current === ancestor) return true;
+            if (seen.has(current)) continue;
+            seen.add(current);
+            const { body } = await this.readObject(current, "commit");
+            queue.push(...this.parseCommit(body).parents);
+        }
+        return false;
+    }
+
+    async ping(): Promise<boolean> {
+        await this.init();
+        return true;
+    }
+
+    async getRef(branch: string): Promise<string> {
+        await this.init();
+        const sha = await this.loadRef(branch);
+        if (!sha) throw apiError(404, "Not Found");
+        return sha;
+    }
+
+    async updateRef(branch: string, commitSha: string): Promise<void> {
+        await this.init();
+        const current = await this.loadRef(branch);
+        if (!current) throw apiError(422, "Reference does not exist");
+        await this.readObject(commitSha, "commit");
+        if (!(await this.isAncestor(current, commitSha))) throw apiError(422, "Update is not a fast forward");
+        await this.storeRef(branch, commitSha);
+    }
+
+    async createRef(branch: string, commitSha: string): Promise<void> {
+        await this.init();
+        if (await this.loadRef(branch)) throw apiError(422, "Reference already exists");
+        await this.readObject(commitSha, "commit");
+        await this.storeRef(branch, commitSha);
+    }
+
+    async createBlob(content: Uint8Array): Promise<string> {
+        await this.init();
+        return this.writeObject("blob", content);
+    }
+
+    async getBlob(sha: string): Promise<Uint8Array> {
+        await this.init();
+        return (await this.readObject(sha, "blob")).body;
+    }
+
+    async createTree(baseSha: string | null, items: CDNTreeItem[]): Promise<string> {
+        await this.init();
+        const files = baseSha ? await this.flatten(await this.peelTree(baseSha)) : new Map<string, TreeEntry>();
+        for (const item of items) {
+            if (item.type === "tree") {
+                for (const [path, e] of await this.flatten(item.sha, `${item.path}/`)) files.set(path, e);
+            } else {
+                await this.readObject(item.sha, "blob");
+                files.set(item.path, { mode: item.mode, name: item.path, sha: item.sha });
+            }
+        }
+        return this.writeNested(files);
+    }
+
+    async getTree(sha: string, recursive = false): Promise<CDNTreeItem[]> {
+        await this.init();
+        const list = async (treeSha: string, prefix: string): Promise<CDNTreeItem[]> => {
+            const { body } = await this.readObject(treeSha, "tree");
+            const items: CDNTreeItem[] = [];
+            for (const e of this.parseTree(body)) {
+                const isTree = e.mode === "40000";
+                items.push({ path: prefix + e.name, mode: isTree ? "040000" : e.mode, type: isTree ? "tree" : "blob", sha: e.sha });
+                if (isTree && recursive) items.push(...await list(e.sha, `${prefix}${e.name}/`));
+            }
+            return items;
+        };
+        return list(await this.peelTree(sha), "");
+    }
+
+    async createCommit(message: string, treeSha: string, parents: string[]): Promise<string> {
+        await this.init();
+        await this.readObject(treeSha, "tree");
+        for (const p of parents) await this.readObject(p, "commit");
+        return this.createCommitObject(message, treeSha, parents);
+    }
+
+    async readFile(ref: string, path: string): Promise<Uint8Array | null> {
+        await this.init();
+        const commit = (await this.loadRef(ref)) ?? ref;
+        if (!(await this.loadObject(commit))) return null;
+        let sha = await this.peelTree(commit);
+        for (const segment of path.split("/")) {
+            const { type, body } = await this.readObject(sha);
+            if (type !== "tree") return null;
+            const entry = this.parseTree(body).find(e => e.name === segment);
+            if (!entry) return null;
+            sha = entry.sha;
+        }
+        const { type, body } = await this.readObject(sha);
+        return type === "blob" ? body : null;
+    }
+
+    publicUrls(): string[] {
+        return [];
+    }
+}
+
+/**
+ * Volatile in-process backend. Ideal for tests and offline development.
+ * @example
+ * const cdn = new GithubCDN({ token: "", owner: "local", repo: "assets", backend: new MemoryBackend() });
+ */
+export class MemoryBackend extends GitObjectStore {
+    private objects = new Map<string, Uint8Array>();
+    private refs = new Map<string, string>();
+
+    protected async loadObject(sha: string) {
+        return this.objects.get(sha) ?? null;
+    }
+
+    protected async storeObject(sha: string, data: Uint8Array) {
+        this.objects.set(sha, data);
+    }
+
+    protected async loadRef(branch: string) {
+        return this.refs.get(branch) ?? null;
+    }
+
+    protected async storeRef(branch: string, sha: string) {
+        this.refs.set(branch, sha);
+    }
+}
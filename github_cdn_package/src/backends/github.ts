@@ -0,0 +1,151 @@
+import { CDNRateLimiter, CDNRetryPolicy, CDNStorageBackend, CDNTreeItem } from "../types.js";
+import { UpstreamUnavailableError, apiError } from "../errors.js";
+import { withRetry } from "../retry.js";
+
+/**
+ * Connection settings for the GitHub REST backend.
+ */
+export interface GithubBackendConfig {
+    token: string;
+    owner: string;
+    repo: string;
+    userAgent: string;
+    /** Paces every REST call and learns the quota from GitHub's responses */
+    rateLimiter?: CDNRateLimiter;
+    /** Retries of 5xx responses, network failures and rate limits (default: 4 attempts) */
+    retry?: CDNRetryPolicy;
+}
+
+/**
+ * Default storage backend: the GitHub Git Data API plus raw.githubusercontent.com for content.
+ */
+export class GithubBackend implements CDNStorageBackend {
+    constructor(private readonly config: GithubBackendConfig) { }
+
+    /**
+     * Internal REST API client.
+     */
+    private async request(path: string, options: RequestInit = {}) {
+        const url = `https://api.github.com/repos/${this.config.owner}/${this.config.repo}${path}`;
+        const headers = {
+            Authorization: `token ${this.config.token}`,
+            "User-Agent": this.config.userAgent,
+            Accept: "application/json",
+            ...options.headers,
+        };
+
+        const res = await this.send(url, { ...options, headers }, true);
+        return res.json();
+    }
+
+    /**
+     * fetch() under the retry policy. Network failures become `UpstreamUnavailableError` and
+     * non-OK responses typed errors (see `apiError`), except for the `allowed` statuses.
+     * @param metered - Whether each attempt counts against the REST quota.
+     */
+    private send(url: string, init: RequestInit, metered = false, allowed: number[] = []): Promise<Response> {
+        return withRetry(async () => {
+            if (metered) await this.config.rateLimiter?.take();
+            let res: Response;
+            try {
+                res = await fetch(url, init);
+            } catch (e) {
+                throw new UpstreamUnavailableError(`GitHub is unreachable: ${e instanceof Error ? e.message : e}`, { cause: e });
+            }
+            if (metered) this.config.rateLimiter?.update(res.headers);
+            if (!res.ok && !allowed.includes(res.status)) {
+                const err = await res.json().catch(() => ({}));
+                throw apiError(res.status, err.message ?? res.statusText, res.headers);
+            }
+            return res;
+        }, this.config.retry);
+    }
+
+    async ping(): Promise<boolean> {
+        try {
+            await this.request("");
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Refreshes the rate limiter from `GET /rate_limit`, which does not count against the quota.
+     */
+    async refreshRateLimit(): Promise<void> {
+        const res = await this.send("https://api.github.com/rate_limit", {
+            headers: { Authorization: `token ${this.config.token}`, "User-Agent": this.config.userAgent, Accept: "application/json" }
+        });
+        this.config.rateLimiter?.update(res.headers);
+    }
+
+    async getRef(branch: string): Promise<string> {
+        const ref = await this.request(`/git/refs/heads/${branch}`);
+        return ref.object.sha;
+    }
+
+    async updateRef(branch: string, commitSha: string): Promise<void> {
+        await this.request(`/git/refs/heads/${branch}`, {
+            method: "PATCH",
+            body: JSON.stringify({ sha: commitSha })
+        });
+    }
+
+    async createRef(branch: string, commitSha: string): Promise<void> {
+        await this.request(`/git/refs`, {
+            method: "POST",
+            body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: commitSha })
+        });
+    }
+
+    async createBlob(content: Uint8Array): Promise<string> {
+        const res = await this.request(`/git/blobs`, {
+            method: "POST",
+            body: JSON.stringify({
+                content: Buffer.from(content).toString("base64"),
+                encoding: "base64"
+            })
+        });
+        return res.sha;
+    }
+
+    async getBlob(sha: string): Promise<Uint8Array> {
+        const blob = await this.request(`/git/blobs/${sha}`);
+        return Buffer.from(blob.content, "base64");
+    }
+
+    async createTree(baseSha: string | null, items: CDNTreeItem[]): Promise<string> {
+        const res = await this.request(`/git/trees`, {
+            method: "POST",
+            body: JSON.stringify(baseSha ? { base_tree: baseSha, tree: items } : { tree: items })
+        });
+        return res.sha;
+    }
+
+    async getTree(sha: string, recursive = false): Promise<CDNTreeItem[]> {
+        const res = await this.request(`/git/trees/${sha}${recursive ? "?recursive=1" : ""}`);
+        return res.tree;
+    }
+
+    async createCommit(message: string, treeSha: string, parents: string[]): Promise<string> {
+        const res = await this.request(`/git/commits`, {
+            method: "POST",
+            body: JSON.stringify({ message, tree: treeSha, parents })
+        });
+        return res.sha;
+    }
+
+    async readFile(ref: string, path: string): Promise<Uint8Array | null> {
+        const res = await this.send(`https://raw.githubusercontent.com/${this.config.owner}/${this.config.repo}/${ref}/${path}`, {
+            headers: { 'Authorization': `token ${this.config.token}` },
+            cache: 'no-store'
+        }, false, [404]);
+        if (res.status === 404) return null;
+        return new Uint8Array(await res.arrayBuffer());
+    }
+
+    publicUrls(ref: string, path: string): string[] {
+        return [`https://cdn.jsdelivr.net/gh/${this.config.owner}/${this.config.repo}@${ref}/${path}`];
+    }
+}
@@ -0,0 +1,54 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { deflateSync, inflateSync } from "node:zlib";
+import { GitObjectStore } from "./git-store.js";
+
+/**
+ * Node.js backend persisting to a bare git repository on disk.
+ * Objects are written as zlib-compressed loose objects, so the directory can be
+ * inspected or pushed with the regular `git` CLI.
+ * @example
+ * const cdn = new GithubCDN({ token: "", owner: "local", repo: "assets", backend: new LocalGitBackend("./.cdn-store") });
+ */
+export class LocalGitBackend extends GitObjectStore {
+    constructor(private readonly root: string, branch = "main") {
+        super(branch);
+    }
+
+    private objectPath(sha: string) {
+        return join(this.root, "objects", sha.substring(0, 2), sha.substring(2));
+    }
+
+    private async write(path: string, data: Uint8Array | string) {
+        // Write-then-rename so concurrent readers never observe a partial file
+        await mkdir(dirname(path), { recursive: true });
+        const tmp = `${path}.${process.pid}.${Date.now()}.tmp`;
+        await writeFile(tmp, data);
+        await rename(tmp, path);
+    }
+
+    protected async loadObject(sha: string) {
+        try {
+            return new Uint8Array(inflateSync(await readFile(this.objectPath(sha))));
+        } catch {
+            return null;
+        }
+    }
+
+    protected async storeObject(sha: string, data: Uint8Array) {
+        await this.write(this.objectPath(sha), deflateSync(data));
+    }
+
+    protected async loadRef(branch: string) {
+        try {
+            return (await readFile(join(this.root, "refs", "heads", branch), "utf-8")).trim();
+        } catch {
+            return null;
+        }
+    }
+
+    protected async storeRef(branch: string, sha: string) {
+        await this.write(join(this.root, "HEAD"), `ref: refs/heads/${this.branch}\n`);
+        await this.write(join(this.root, "refs", "heads", branch), `${sha}\n`);
+    }
+}
@@ -0,0 +1,93 @@
+import { CDNCache } from "./types.js";
+
+/**
+ * `CDNCache` on the runtime Cache API: `caches.default` on Cloudflare Workers, else a named cache.
+ * Entries are stored as responses under a synthetic URL. Cache API implementations that ignore
+ * `Cache-Control` (Deno, browsers) are covered by an expiry header checked on read.
+ * Without a Cache API (Node.js, Vercel Edge) every call is a miss.
+ * @example
+ * const cdn = new GithubCDN({ token, owner, repo, cache: new EdgeCache() });
+ */
+export class EdgeCache implements CDNCache {
+    private store: Promise<Cache | null> | null = null;
+
+    /**
+     * @param name - Cache to open where there is no `caches.default`.
+     * @param origin - Base of the synthetic URLs; only needs to be unique to this SDK.
+     */
+    constructor(private readonly name = "github-cdn", private readonly origin = "https://github-cdn.cache/") { }
+
+    private open(): Promise<Cache | null> {
+        this.store ??= (async () => {
+            if (typeof caches === "undefined") return null;
+            const storage = caches as CacheStorage & { default?: Cache };
+            return storage.default ?? await storage.open(this.name);
+        })().catch(() => null);
+        return this.store;
+    }
+
+    private url(key: string) {
+        return this.origin + key.split("/").map(encodeURIComponent).join("/");
+    }
+
+    async get(key: string): Promise<Uint8Array | null> {
+        const cache = await this.open();
+        const res = await cache?.match(this.url(key));
+        if (!res) return null;
+        if (Number(res.headers.get("x-cdn-expires")) < Date.now()) {
+            await cache!.delete(this.url(key));
+            return null;
+        }
+        return new Uint8Array(await res.arrayBuffer());
+    }
+
+    async put(key: string, bytes: Uint8Array, ttl: number): Promise<void> {
+        const cache = await this.open();
+        await cache?.put(this.url(key), new Response(bytes as BodyInit, {
+            headers: {
+                "Cache-Control": `public, max-age=${Math.ceil(ttl)}`,
+                "x-cdn-expires": String(Date.now() + ttl * 1000),
+            },
+        }));
+    }
+
+    async delete(key: string): Promise<void> {
+        await (await this.open())?.delete(this.url(key));
+    }
+}
+
+/**
+ * `CDNCache` in this process's memory, mostly for Node.js servers and tests.
+ * Least recently written entries are evicted beyond `maxBytes`.
+ */
+export class MemoryCache implements CDNCache {
+    private entries = new Map<string, { bytes: Uint8Array; expiresAt: number }>();
+    private size = 0;
+
+    constructor(private readonly maxBytes = 64 * 1024 * 1024) { }
+
+    async get(key: string): Promise<Uint8Array | null> {
+        const entry = this.entries.get(key);
+        if (entry && entry.expiresAt <= Date.now()) await this.delete(key);
+        return this.entries.get(key)?.bytes ?? null;
+    }
+
+    async put(key: string, bytes: Uint8Array, ttl: number): Promise<void> {
+        if (bytes.byteLength > this.maxBytes) return;
+        await this.delete(key);
+        // Maps iterate in insertion order, so the first keys are the oldest writes
+        for (const oldest of this.entries.keys()) {
+            if (this.size + bytes.byteLength <= this.maxBytes) break;
+            await this.delete(oldest);
+        }
+        this.entries.set(key, { bytes, expiresAt: Date.now() + ttl * 1000 });
+        this.size += bytes.byteLength;
+    }
+
+    async delete(key: string): Promise<void> {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        this.size -= entry.bytes.byteLength;
+        this.entries.delete(key);
+    }
+}
@@ -0,0 +1,380 @@
+#!/usr/bin/env node
+import { createReadStream, createWriteStream, existsSync } from "node:fs";
+import { readFile, rm, stat } from "node:fs/promises";
+import { Writable } from "node:stream";
+import { basename, extname } from "node:path";
+import { once } from "node:events";
+import { parseArgs } from "node:util";
+import { GithubCDN } from "./index.js";
+import { LocalGitBackend } from "./backends/local.js";
+import { CDNError } from "./errors.js";
+import { Sha256 } from "./sha256.js";
+import { CDNAsset, CDNConfig, CDNLog, CDNProgress } from "./types.js";
+
+const USAGE = `Usage: github-cdn <command> [options]
+
+Commands:
+  upload <files...>        Upload files (--folder, --tag, --replaces)
+  ls                       List assets (--prefix, --folder, --limit, --trash; --tag, repeatable, must all match)
+  get <id|path>            Download an asset (-o <file>, "-" for stdout; --version)
+  rm <ids...>              Delete assets: trash them with soft delete on, else purge (--permanent)
+  sync                     Rebuild the registry from the manifests in the repositories
+  verify [ids...]          Download assets and check their digests (default: every asset)
+  ping                     Check that every repository is reachable
+
+Options:
+  -c, --config <file>      JSON config file (default: ./github-cdn.config.json)
+      --json               Machine-readable output
+  -q, --quiet              No progress bars or logs
+  -h, --help               Show this help
+
+Environment: GITHUB_TOKEN, GITHUB_OWNER, GITHUB_REPO, GITHUB_BRANCH, CDN_ENCRYPTION_KEYS,
+CDN_ENCRYPTION_KEY_ID, CDN_COMPRESSION and CDN_SHARDS override the config file.
+A config file may set "local": "<dir>" to store in a local git directory instead of GitHub.
+
+Exit codes: 0 success, 1 operation failed, 2 invalid usage or config.`;
+
+/** Bad arguments or configuration (exit code 2). */
+class UsageError extends Error { }
+
+const OPTIONS = {
+    config: { type: "string", short: "c" },
+    json: { type: "boolean" },
+    quiet: { type: "boolean", short: "q" },
+    help: { type: "boolean", short: "h" },
+    output: { type: "string", short: "o" },
+    folder: { type: "string" },
+    tag: { type: "string", multiple: true },
+    prefix: { type: "string" },
+    limit: { type: "string" },
+    version: { type: "string" },
+    replaces: { type: "string" },
+    trash: { type: "boolean" },
+    permanent: { type: "boolean" },
+} as const;
+
+const args = (() => {
+    try {
+        return parseArgs({ options: OPTIONS, allowPositionals: true });
+    } catch (e) {
+        process.stderr.write(`error: ${e instanceof Error ? e.message : e}\nRun "github-cdn --help" for usage.\n`);
+        process.exit(2);
+    }
+})();
+const flags = args.values;
+const [command, ...operands] = args.positionals;
+
+const MIME_TYPES: Record<string, string> = {
+    ".html": "text/html", ".css": "text/css", ".js": "text/javascript", ".mjs": "text/javascript", ".json": "application/json",
+    ".txt": "text/plain", ".md": "text/markdown", ".csv": "text/csv", ".xml": "application/xml", ".svg": "image/svg+xml",
+    ".png": "image/png", ".jpg": "image/jpeg", ".jpeg": "image/jpeg", ".gif": "image/gif", ".webp": "image/webp", ".avif": "image/avif",
+    ".ico": "image/x-icon", ".mp4": "video/mp4", ".webm": "video/webm", ".mp3": "audio/mpeg", ".wav": "audio/wav",
+    ".pdf": "application/pdf", ".zip": "application/zip", ".wasm": "application/wasm", ".woff2": "font/woff2", ".woff": "font/woff",
+};
+
+/**
+ * Builds the client config: the config file, overridden by the same environment variables the Next.js app reads.
+ */
+async function loadConfig(): Promise<CDNConfig> {
+    const path = flags.config ?? process.env.GITHUB_CDN_CONFIG ?? (existsSync("github-cdn.config.json") ? "github-cdn.config.json" : null);
+    let file: Partial<CDNConfig> & { local?: string } = {};
+    if (path) {
+        try {
+            file = JSON.parse(await readFile(path, "utf8"));
+        } catch (e) {
+            throw new UsageError(`Cannot read config ${path}: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    const env = process.env;
+    const config: Partial<CDNConfig> = { ...file };
+    delete (config as { local?: string }).local;
+    if (env.GITHUB_TOKEN) config.token = env.GITHUB_TOKEN;
+    if (env.GITHUB_OWNER) config.owner = env.GITHUB_OWNER;
+    if (env.GITHUB_REPO) config.repo = env.GITHUB_REPO;
+    if (env.GITHUB_BRANCH) config.branch = env.GITHUB_BRANCH;
+    if (env.CDN_COMPRESSION) config.compression = env.CDN_COMPRESSION as CDNConfig["compression"];
+    if (env.CDN_ENCRYPTION_KEYS) {
+        const keys = Object.fromEntries(env.CDN_ENCRYPTION_KEYS.split(",").map(pair => pair.trim().split(":")));
+        const ids = Object.keys(keys);
+        config.encryption = { keys, activeKeyId: env.CDN_ENCRYPTION_KEY_ID || ids[ids.length - 1] };
+    }
+    if (env.CDN_SHARDS) {
+        config.shards = env.CDN_SHARDS.split(",").map(entry => {
+            const [owner, repo] = entry.trim().split("/");
+            return { owner, repo };
+        });
+    }
+
+    if (file.local) {
+        return { token: "", owner: "local", repo: basename(file.local), ...config, backend: new LocalGitBackend(file.local, config.branch) } as CDNConfig;
+    }
+    if (!config.token || !config.owner || !config.repo) {
+        throw new UsageError("Missing GITHUB_TOKEN, GITHUB_OWNER or GITHUB_REPO (set them in the environment or the config file).");
+    }
+    return config as CDNConfig;
+}
+
+const formatBytes = (bytes: number) => {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let i = 0;
+    while (bytes >= 1024 && i < units.length - 1) {
+        bytes /= 1024;
+        i++;
+    }
+    return `${i ? bytes.toFixed(1) : bytes} ${units[i]}`;
+};
+
+/**
+ * Progress bar on stderr, redrawn in place. Silent when stderr is not a terminal or output is JSON/quiet.
+ */
+function progressBar(label: string) {
+    const enabled = process.stderr.isTTY && !flags.json && !flags.quiet;
+    const width = 24;
+    return {
+        update(progress: CDNProgress) {
+            if (!enabled) return;
+            const done = Math.round((Math.min(100, progress.percentage) / 100) * width);
+            const bytes = progress.total ? `${formatBytes(progress.loaded)}/${formatBytes(progress.total)}` : formatBytes(progress.loaded);
+            process.stderr.write(`\r\x1b[2K${label} [${"#".repeat(done)}${"-".repeat(width - done)}] ${Math.floor(progress.percentage)}% ${bytes} ${progress.stage}`);
+        },
+        end() {
+            if (enabled) process.stderr.write("\r\x1b[2K");
+        },
+    };
+}
+
+/**
+ * Log callback drawing the progress of each log on `bar` and printing warnings. Errors are reported once they are thrown.
+ */
+const reporter = (bar?: ReturnType<typeof progressBar>) => (log: CDNLog) => {
+    if (log.progress) bar?.update(log.progress);
+    if (log.logType === "warning" && !flags.quiet) {
+        bar?.end();
+        process.stderr.write(`warning: ${log.message}\n`);
+    }
+};
+
+const print = (line: string) => process.stdout.write(line + "\n");
+
+/**
+ * Resolves an id or folder path to the stored path, shard and commit of one version. Unregistered paths pass through.
+ */
+async function locate(cdn: GithubCDN, idOrPath: string, version?: number): Promise<{ path: string; shard?: string; commit?: string; asset: CDNAsset | null }> {
+    if (version !== undefined) {
+        const { asset, version: found } = await cdn.resolveVersion(idOrPath, version);
+        return { path: found.path, shard: found.shard, commit: found.commit, asset };
+    }
+    const asset = await cdn.getAsset(idOrPath);
+    const current = asset && GithubCDN.versionOf(asset);
+    return current ? { path: current.path, shard: current.shard, commit: current.commit, asset } : { path: idOrPath, asset: null };
+}
+
+/**
+ * Downloads an asset version into `sink`, returning the byte count and the SHA-256 of what was read.
+ */
+async function download(cdn: GithubCDN, idOrPath: string, sink: ((chunk: Uint8Array) => Promise<void>) | null, version?: number) {
+    const target = await locate(cdn, idOrPath, version);
+    const bar = progressBar(basename(target.asset?.name ?? target.path));
+    const { stream, manifest } = await cdn.fetch(target.path, reporter(bar), { shard: target.shard, commit: target.commit });
+
+    const hash = new Sha256();
+    const reader = stream.getReader();
+    let loaded = 0;
+    try {
+        for (; ;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            hash.update(value);
+            loaded += value.byteLength;
+            await sink?.(value);
+            bar.update({
+                percentage: manifest.totalSize ? (loaded / manifest.totalSize) * 100 : 100,
+                currentChunk: Math.ceil(loaded / manifest.chunkSize), totalChunks: manifest.totalChunks,
+                loaded, total: manifest.totalSize, stage: "Downloading",
+            });
+        }
+    } finally {
+        bar.end();
+    }
+    return { manifest, loaded, digest: hash.digest() };
+}
+
+async function upload(cdn: GithubCDN, files: string[]): Promise<boolean> {
+    if (!files.length) throw new UsageError("upload needs at least one file.");
+    if (flags.replaces && files.length > 1) throw new UsageError("--replaces takes a single file.");
+
+    const assets: CDNAsset[] = [];
+    let ok = true;
+    for (const file of files) {
+        const bar = progressBar(basename(file));
+        try {
+            const { size } = await stat(file);
+            const asset = await cdn.upload(createReadStream(file), {
+                name: basename(file),
+                type: MIME_TYPES[extname(file).toLowerCase()] ?? "application/octet-stream",
+                size,
+                folder: flags.folder,
+                tags: flags.tag,
+                replaces: flags.replaces,
+                onUpdate: reporter(bar),
+            });
+            bar.end();
+            assets.push(asset);
+            if (!flags.json) print(`${asset.id}\t${asset.links.cdn}`);
+        } catch (e) {
+            bar.end();
+            ok = false;
+            process.stderr.write(`error: ${file}: ${describe(e)}\n`);
+        }
+    }
+    if (flags.json) print(JSON.stringify(assets, null, 2));
+    return ok;
+}
+
+async function list(cdn: GithubCDN): Promise<boolean> {
+    const limit = flags.limit ? Number(flags.limit) : Infinity;
+    if (!(limit > 0)) throw new UsageError("--limit must be a positive number.");
+
+    // Every --tag must match; the registry filters on the first, the rest are checked here
+    const tags = flags.tag ?? [];
+    const tagged = (a: CDNAsset) => tags.every(t => a.tags?.includes(t));
+
+    let assets: CDNAsset[] = [];
+    if (flags.trash) {
+        assets = (await cdn.listTrash()).filter(tagged).slice(0, limit);
+    } else {
+        let cursor: string | null = null;
+        do {
+            const page = await cdn.list({ cursor, limit: Math.min(100, limit - assets.length), prefix: flags.prefix, folder: flags.folder, tag: tags[0] });
+            if (page.registryMissing && !flags.json) process.stderr.write("No registry on the branch yet.\n");
+            assets.push(...page.assets.filter(tagged));
+            cursor = page.cursor;
+        } while (cursor && assets.length < limit);
+    }
+
+    if (flags.json) {
+        print(JSON.stringify(assets, null, 2));
+    } else {
+        for (const a of assets) {
+            print([a.id, formatBytes(a.size).padStart(10), a.uploadedAt.substring(0, 19).replace("T", " "), `${a.folder ? a.folder + "/" : ""}${a.name}`].join("  "));
+        }
+    }
+    return true;
+}
+
+async function get(cdn: GithubCDN, idOrPath: string | undefined): Promise<boolean> {
+    if (!idOrPath) throw new UsageError("get needs an asset id or path.");
+    const version = flags.version ? Number(flags.version) : undefined;
+
+    const toStdout = flags.output === "-";
+    const target = toStdout ? "-" : flags.output ?? basename((await locate(cdn, idOrPath, version)).asset?.name ?? idOrPath);
+    const out: Writable = toStdout ? process.stdout : createWriteStream(target);
+    const sink = async (chunk: Uint8Array) => {
+        if (!out.write(chunk)) await once(out, "drain");
+    };
+
+    let result: Awaited<ReturnType<typeof download>>;
+    try {
+        result = await download(cdn, idOrPath, sink, version);
+        if (result.manifest.digest && result.digest !== result.manifest.digest) throw new CDNError(`Digest mismatch for ${idOrPath}.`);
+    } catch (e) {
+        // Never leave a truncated or corrupt file behind
+        if (!toStdout) {
+            out.destroy();
+            await rm(target, { force: true });
+        }
+        throw e;
+    }
+    if (toStdout) return true;
+
+    out.end();
+    await once(out, "finish");
+    if (flags.json) print(JSON.stringify({ file: target, bytes: result.loaded, digest: result.digest }));
+    else if (!flags.quiet) process.stderr.write(`Saved ${target} (${formatBytes(result.loaded)})\n`);
+    return true;
+}
+
+async function remove(cdn: GithubCDN, ids: string[]): Promise<boolean> {
+    if (!ids.length) throw new UsageError("rm needs at least one asset id.");
+    await (flags.permanent ? cdn.purgeMany(ids, reporter()) : cdn.deleteMany(ids, reporter()));
+    if (flags.json) print(JSON.stringify({ ids, permanent: !!flags.permanent }));
+    else if (!flags.quiet) print(`${flags.permanent ? "Purged" : "Deleted"} ${ids.length} asset(s).`);
+    return true;
+}
+
+async function sync(cdn: GithubCDN): Promise<boolean> {
+    const { recovered } = await cdn.sync(reporter());
+    print(flags.json ? JSON.stringify({ recovered }) : `Registry rebuilt with ${recovered} asset(s).`);
+    return true;
+}
+
+async function verify(cdn: GithubCDN, only: string[]): Promise<boolean> {
+    const ids = [...only];
+    if (!ids.length) {
+        let cursor: string | null = null;
+        do {
+            const page = await cdn.list({ cursor });
+            ids.push(...page.assets.map(a => a.id));
+            cursor = page.cursor;
+        } while (cursor);
+    }
+
+    const results: { id: string; ok: boolean; error?: string }[] = [];
+    for (const id of ids) {
+        try {
+            // Chunks are checked against their own digests while streaming; the whole file against the manifest
+            const { digest, manifest } = await download(cdn, id, null);
+            if (manifest.digest && digest !== manifest.digest) throw new Error("whole-file digest mismatch");
+            results.push({ id, ok: true });
+            if (!flags.json) print(`ok    ${id}${manifest.digest ? "" : " (no digest, chunks only)"}`);
+        } catch (e) {
+            results.push({ id, ok: false, error: describe(e) });
+            if (!flags.json) print(`FAIL  ${id}: ${describe(e)}`);
+        }
+    }
+    if (flags.json) print(JSON.stringify(results, null, 2));
+    return results.every(r => r.ok);
+}
+
+async function ping(cdn: GithubCDN, config: CDNConfig): Promise<boolean> {
+    const ok = await cdn.ping();
+    const repos = [`${config.owner}/${config.repo}`, ...(config.shards ?? []).map(s => `${s.owner}/${s.repo}`)];
+    print(flags.json ? JSON.stringify({ ok, repositories: [...new Set(repos)] }) : `${ok ? "ok" : "unreachable"}  ${[...new Set(repos)].join(", ")}`);
+    return ok;
+}
+
+const describe = (e: unknown) => {
+    if (!(e instanceof Error)) return String(e);
+    return e instanceof CDNError && e.requestId ? `${e.message} (${e.name}, request ${e.requestId})` : e.message;
+};
+
+async function main(): Promise<number> {
+    if (flags.help || !command) {
+        print(USAGE);
+        return command || flags.help ? 0 : 2;
+    }
+    const commands = ["upload", "ls", "get", "rm", "sync", "verify", "ping"];
+    if (!commands.includes(command)) throw new UsageError(`Unknown command: ${command}`);
+
+    const config = await loadConfig();
+    const cdn = new GithubCDN(config);
+    const run: Record<string, () => Promise<boolean>> = {
+        upload: () => upload(cdn, operands),
+        ls: () => list(cdn),
+        get: () => get(cdn, operands[0]),
+        rm: () => remove(cdn, operands),
+        sync: () => sync(cdn),
+        verify: () => verify(cdn, operands),
+        ping: () => ping(cdn, config),
+    };
+    return (await run[command]()) ? 0 : 1;
+}
+
+main().then(code => {
+    process.exitCode = code;
+}, (e: unknown) => {
+    process.stderr.write(`error: ${describe(e)}\n`);
+    if (e instanceof UsageError) process.stderr.write(`Run "github-cdn --help" for usage.\n`);
+    process.exitCode = e instanceof UsageError ? 2 : 1;
+});
@@ -0,0 +1,143 @@
+/**
+ * Details attached to a `CDNError`.
+ */
+export interface CDNErrorOptions {
+    /** HTTP status of the failed storage API response, or the closest equivalent for local failures */
+    status?: number;
+    /** `X-GitHub-Request-Id` of the failed response, for GitHub support */
+    requestId?: string;
+    /** Whether repeating the same call may succeed */
+    retryable?: boolean;
+    cause?: unknown;
+}
+
+/**
+ * Base class of every error the SDK raises on purpose.
+ */
+export class CDNError extends Error {
+    name = "CDNError";
+    public readonly status: number;
+    public readonly requestId?: string;
+    public readonly retryable: boolean;
+
+    constructor(message: string, options: CDNErrorOptions = {}, defaults: { status: number; retryable: boolean } = { status: 500, retryable: false }) {
+        super(message, { cause: options.cause });
+        this.status = options.status ?? defaults.status;
+        this.requestId = options.requestId;
+        this.retryable = options.retryable ?? defaults.retryable;
+    }
+}
+
+/** An asset, version, session, ref or object does not exist. */
+export class NotFoundError extends CDNError {
+    name = "NotFoundError";
+
+    constructor(message: string, options?: CDNErrorOptions) {
+        super(message, options, { status: 404, retryable: false });
+    }
+}
+
+/** The storage credentials were rejected or lack permission. */
+export class UnauthorizedError extends CDNError {
+    name = "UnauthorizedError";
+
+    constructor(message: string, options?: CDNErrorOptions) {
+        super(message, options, { status: 401, retryable: false });
+    }
+}
+
+/** The operation clashes with the current state, e.g. the branch moved or chunks are missing. */
+export class ConflictError extends CDNError {
+    name = "ConflictError";
+
+    constructor(message: string, options?: CDNErrorOptions) {
+        super(message, options, { status: 409, retryable: false });
+    }
+}
+
+/**
+ * The storage API quota is exhausted until `resetAt`. `secondary` marks GitHub's abuse limits
+ * (too many concurrent or content-creating calls), which lift after a short pause.
+ */
+export class RateLimitedError extends CDNError {
+    name = "RateLimitedError";
+
+    constructor(message: string, public readonly resetAt: Date | null, options?: CDNErrorOptions, public readonly secondary = false) {
+        super(message, options, { status: 429, retryable: true });
+    }
+}
+
+/** An argument or input was rejected before anything was written. */
+export class ValidationError extends CDNError {
+    name = "ValidationError";
+
+    constructor(message: string, options?: CDNErrorOptions) {
+        super(message, options, { status: 400, retryable: false });
+    }
+}
+
+/** Stored data failed its checksum, could not be decrypted or is incomplete. */
+export class IntegrityError extends CDNError {
+    name = "IntegrityError";
+
+    constructor(message: string, options?: CDNErrorOptions) {
+        super(message, options, { status: 502, retryable: false });
+    }
+}
+
+/** The storage API failed (5xx) or could not be reached. */
+export class UpstreamUnavailableError extends CDNError {
+    name = "UpstreamUnavailableError";
+
+    constructor(message: string, options?: CDNErrorOptions) {
+        super(message, options, { status: 503, retryable: true });
+    }
+}
+
+/**
+ * Raised for non-2xx storage API responses that none of the typed errors describe.
+ * Offline backends raise it with the status GitHub would have answered.
+ */
+export class GithubAPIError extends CDNError {
+    name = "GithubAPIError";
+
+    constructor(status: number, message: string, options?: Omit<CDNErrorOptions, "status">) {
+        super(`GitHub API Error (${status}): ${message}`, { ...options, status });
+    }
+}
+
+/**
+ * Typed error for a failed storage API response.
+ * @param headers - Response headers, for the request id and rate-limit reset.
+ */
+export function apiError(status: number, message: string, headers?: Headers): CDNError {
+    const text = `GitHub API Error (${status}): ${message}`;
+    const options = { status, requestId: headers?.get("x-github-request-id") ?? undefined };
+
+    const remaining = headers?.get("x-ratelimit-remaining");
+    if (status === 429 || (status === 403 && (remaining === "0" || /rate limit/i.test(message)))) {
+        const retryAfter = Number(headers?.get("retry-after"));
+        const reset = Number(headers?.get("x-ratelimit-reset"));
+        // Secondary limits leave quota over; GitHub asks to wait at least a minute when it sends no Retry-After
+        const secondary = remaining !== "0" && (status === 429 || retryAfter > 0 || /secondary rate limit/i.test(message));
+        const resetAt = retryAfter > 0 ? new Date(Date.now() + retryAfter * 1000)
+            : secondary ? new Date(Date.now() + 60_000)
+                : reset > 0 ? new Date(reset * 1000) : null;
+        return new RateLimitedError(text, resetAt, options, secondary);
+    }
+    if (status === 401 || status === 403) return new UnauthorizedError(text, options);
+    if (status === 404) return new NotFoundError(text, options);
+    // The branch moved (non-fast-forward) or the ref was created concurrently: try again on the new head
+    if (status === 409 || (status === 422 && /fast.?forward|already exists/i.test(message))) {
+        return new ConflictError(text, { ...options, retryable: true });
+    }
+    if (status === 400 || status === 422) return new ValidationError(text, options);
+    if (status >= 500) return new UpstreamUnavailableError(text, options);
+    return new GithubAPIError(status, message, options);
+}
+
+/**
+ * True when a ref update was rejected because the branch moved underneath us.
+ */
+export const isRefConflict = (e: unknown): boolean =>
+    e instanceof ConflictError && (e.status === 409 || (e.status === 422 && /fast.?forward/i.test(e.message)));
@@ -1,7 +1,180 @@
-import { CDNConfig, CDNAsset, CDNManifest, CDNLog, CDNLinks, CDNProgress } from "./types.js";
+import {
+    CDNConfig, CDNAsset, CDNManifest, CDNLog, CDNLinks, CDNProgress, CDNRange, CDNFetchOptions,
+    CDNTreeItem, CDNTransaction, CDNCommitResult, CDNStorageBackend, CDNEncryptionInfo,
+    CDNCompressionCodec, CDNCompressionInfo, CDNPreparedChunk, CDNFetchResult, CDNUploadInput, CDNUploadOptions,
+    CDNSessionStore, CDNSessionInit, CDNSessionChunk, CDNUploadSession, CDNShardConfig,
+    CDNListOptions, CDNListResult, CDNRegistryIndex, CDNAssetAttributes, CDNMetadataPatch, CDNFinalizeOptions,
+    CDNAssetVersion, CDNRegistry, CDNBatchUploadItem, CDNSignOptions, CDNSignatureCheck, CDNRateLimitStatus,
+    CDNEvent, CDNEventMap, CDNEventType
+} from "./types.js";
+import {
+    isRefConflict, CDNError, NotFoundError, ConflictError, ValidationError, IntegrityError
+} from "./errors.js";
+import { Sha256 } from "./sha256.js";
+import { signParams, safeEqual } from "./signing.js";
+import { BranchSessionStore } from "./sessions.js";
+import { RegistryView, LEGACY_REGISTRY, REGISTRY_INDEX, compareAssets, pageKey, pagePath } from "./registry.js";
+import { GithubBackend } from "./backends/github.js";
+import { EthicalRateLimiter } from "./rate-limiter.js";
+import { withRetry } from "./retry.js";
 
 // Export all types for absolute compatibility
 export * from "./types.js";
+export {
+    CDNError, NotFoundError, UnauthorizedError, ConflictError, RateLimitedError, ValidationError,
+    IntegrityError, UpstreamUnavailableError, GithubAPIError, apiError
+} from "./errors.js";
+export type { CDNErrorOptions } from "./errors.js";
+export { GithubBackend } from "./backends/github.js";
+export { GitObjectStore, MemoryBackend } from "./backends/git-store.js";
+export { MemorySessionStore, BranchSessionStore } from "./sessions.js";
+export { EthicalRateLimiter } from "./rate-limiter.js";
+export { withRetry, retryDelay } from "./retry.js";
+export { EdgeCache, MemoryCache } from "./cache.js";
+export { JsDelivrPurger, HttpPurger, CloudflarePurger } from "./purge.js";
+export { WebhookDispatcher, MemoryDeadLetterStore, verifyWebhook } from "./webhooks.js";
+export type { WebhookDispatcherOptions } from "./webhooks.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Iterates the byte pieces of any supported upload source.
+ */
+async function* pieces(source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array> | Uint8Array): AsyncGenerator<Uint8Array> {
+    if (source instanceof Uint8Array) {
+        yield source;
+    } else if (source instanceof ReadableStream) {
+        // Not every runtime makes ReadableStream async-iterable yet
+        const reader = source.getReader();
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) return;
+                yield value;
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    } else {
+        for await (const piece of source) yield typeof piece === "string" ? new TextEncoder().encode(piece) : piece;
+    }
+}
+
+/**
+ * Re-cuts a byte source into fixed-size chunks (the last may be shorter), holding at most one chunk in memory.
+ */
+async function* chunked(source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array> | Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+    let chunk = new Uint8Array(size);
+    let filled = 0;
+    for await (const piece of pieces(source)) {
+        let pos = 0;
+        while (pos < piece.byteLength) {
+            const take = Math.min(size - filled, piece.byteLength - pos);
+            chunk.set(piece.subarray(pos, pos + take), filled);
+            filled += take;
+            pos += take;
+            if (filled === size) {
+                yield chunk;
+                chunk = new Uint8Array(size);
+                filled = 0;
+            }
+        }
+    }
+    if (filled) yield chunk.subarray(0, filled);
+}
+
+/**
+ * Pipes bytes through a (De)CompressionStream.
+ */
+const transcode = async (data: Uint8Array | ArrayBuffer, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([data as BlobPart]).stream().pipeThrough(transform)).arrayBuffer());
+
+/**
+ * Turns a virtual folder into its canonical `a/b/c` form; empty means no folder.
+ */
+const normalizeFolder = (folder: string): string | undefined =>
+    folder.split("/").map(s => s.trim()).filter(Boolean).join("/") || undefined;
+
+/**
+ * Decodes a `list()` cursor, the position of the last asset returned: base64 of `<uploadedAt>|<id>`.
+ */
+const decodeCursor = (cursor: string): Pick<CDNAsset, "uploadedAt" | "id"> => {
+    let decoded: string;
+    try {
+        decoded = atob(cursor);
+    } catch {
+        throw new ValidationError("Invalid cursor.");
+    }
+    const [uploadedAt, ...rest] = decoded.split("|");
+    const id = rest.join("|");
+    if (!id || Number.isNaN(Date.parse(uploadedAt))) throw new ValidationError("Invalid cursor.");
+    return { uploadedAt, id };
+};
+
+/**
+ * Validates user-supplied asset attributes and keeps only the ones that are set.
+ */
+const attributes = (input: CDNAssetAttributes): CDNAssetAttributes => {
+    const out: CDNAssetAttributes = {};
+    if (input.metadata) {
+        for (const [key, value] of Object.entries(input.metadata)) {
+            if (typeof value !== "string") throw new ValidationError(`Metadata value for "${key}" must be a string.`);
+        }
+        out.metadata = { ...input.metadata };
+    }
+    if (input.tags) out.tags = [...new Set(input.tags.map(t => String(t).trim()).filter(Boolean))];
+    if (input.folder) out.folder = normalizeFolder(input.folder);
+    return out;
+};
+
+/**
+ * Applies a metadata patch to an asset or manifest.
+ */
+const patchAttributes = <T extends CDNAssetAttributes>(target: T, patch: CDNMetadataPatch): T => {
+    const next: T = { ...target };
+    if (patch.metadata) {
+        const metadata = { ...target.metadata };
+        for (const [key, value] of Object.entries(patch.metadata)) {
+            if (value === null) delete metadata[key];
+            else metadata[key] = value;
+        }
+        next.metadata = attributes({ metadata }).metadata;
+        if (!Object.keys(metadata).length) delete next.metadata;
+    }
+    if (patch.tags) next.tags = attributes({ tags: patch.tags }).tags;
+    if (patch.folder !== undefined) next.folder = patch.folder === null ? undefined : normalizeFolder(patch.folder);
+    return next;
+};
+
+/** Config keys that stay optional after defaults are applied. */
+type OptionalConfigKeys = "backend" | "encryption" | "compression" | "sessions" | "shards" | "signing" | "cache";
+type ResolvedConfig = Required<Omit<CDNConfig, OptionalConfigKeys>> & Pick<CDNConfig, OptionalConfigKeys>;
+
+/** A repository the SDK stores data in, with its backend attached. */
+interface Shard {
+    /** `owner/repo` */
+    id: string;
+    owner: string;
+    repo: string;
+    branch: string;
+    backend: CDNStorageBackend;
+}
+
+/** A stored asset version whose public URLs a write made stale; `uploadedAt` of its registry entry, if any. */
+type PurgeTarget = Pick<CDNAsset, "id" | "path" | "shard" | "commit"> & { uploadedAt?: string };
+
+/** Best-effort file name of an upload input, for failure events. */
+const inputName = (input: CDNUploadInput): string => {
+    const { name } = input as { name?: unknown };
+    return typeof name === "string" ? name : "unnamed";
+};
+
+/** FNV-1a, a stable string hash for id-based shard placement. */
+const fnv1a = (value: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+    return hash >>> 0;
+};
 
 /**
  * GithubCDN Universal SDK: A production-grade library for decentralized asset delivery.
@@ -10,7 +183,21 @@ export * from "./types.js";
 export class GithubCDN {
     /** SDK Version */
     public static readonly version: string = "1.0.0";
-    private config: Required<CDNConfig>;
+    private config: ResolvedConfig;
+    /** Storage the SDK reads from and commits to */
+    private backend: CDNStorageBackend;
+    /** Main repository: global registry, sessions and unsharded data */
+    private index: Shard;
+    /** Repositories new uploads are placed in */
+    private pool: Shard[];
+    /** Round-robin cursor over the pool */
+    private nextShard = 0;
+    /** Resumable upload session persistence */
+    private sessions: CDNSessionStore;
+    /** Imported AES-GCM keys by key id */
+    private cryptoKeys = new Map<string, Promise<CryptoKey>>();
+    /** Lifecycle event listeners by event type, `*` receiving every event */
+    private listeners = new Map<CDNEventType | "*", Set<(event: CDNEvent) => void>>();
 
     /**
      * Initializes the GithubCDN client.
@@ -22,334 +209,1542 @@ export class GithubCDN {
         this.config = {
             branch: "main",
             userAgent: `Github-CDN-SDK-v${GithubCDN.version}`,
+            commitAttempts: 5,
+            sessionTTL: 24 * 60 * 60,
+            shardPolicy: "round-robin",
+            softDelete: false,
+            trashRetention: 30 * 24 * 60 * 60,
+            rateLimiter: new EthicalRateLimiter(),
+            retry: {},
+            cacheTTL: 300,
+            purgers: [],
             ...config,
         };
+        this.backend = config.backend ?? new GithubBackend(this.config);
+        this.sessions = config.sessions ?? new BranchSessionStore(this.backend);
+        this.index = {
+            id: `${this.config.owner}/${this.config.repo}`,
+            owner: this.config.owner,
+            repo: this.config.repo,
+            branch: this.config.branch,
+            backend: this.backend
+        };
+        const shards: CDNShardConfig[] = config.shards ?? [{ owner: this.config.owner, repo: this.config.repo }];
+        this.pool = shards.map(s => {
+            const id = `${s.owner}/${s.repo}`;
+            if (id === this.index.id) return this.index;
+            return {
+                id,
+                owner: s.owner,
+                repo: s.repo,
+                branch: s.branch ?? this.config.branch,
+                backend: s.backend ?? new GithubBackend({
+                    ...this.config,
+                    owner: s.owner,
+                    repo: s.repo,
+                    // GitHub counts the quota per token
+                    token: s.token ?? this.config.token,
+                    rateLimiter: s.token ? new EthicalRateLimiter() : this.config.rateLimiter
+                })
+            };
+        });
+        if (!this.pool.length) throw new ValidationError("At least one shard is required.");
     }
 
     /**
-     * Verifies connection and credentials by pinging the repository.
-     * @returns Promise<boolean> - True if the repository is accessible.
+     * Looks up a shard by `owner/repo`. Assets without a shard live in the main repository.
      */
-    public async ping(): Promise<boolean> {
-        try {
-            await this.request("");
-            return true;
-        } catch {
-            return false;
+    private shardOf(id?: string): Shard {
+        if (!id || id === this.index.id) return this.index;
+        const shard = this.pool.find(s => s.id === id);
+        if (!shard) throw new ValidationError(`Unknown shard: ${id}`);
+        return shard;
+    }
+
+    /**
+     * Finds the shard holding an asset: the given one, the only possible one, or the registry's record.
+     */
+    private async locate(match: (asset: CDNAsset) => boolean, shard?: string): Promise<Shard> {
+        if (shard) return this.shardOf(shard);
+        if (this.pool.length === 1 && this.pool[0] === this.index) return this.index;
+        const asset = await (await RegistryView.load(this.backend, await this.getRef())).find(match);
+        return this.shardOf(asset?.shard);
+    }
+
+    /**
+     * Registry version stored at `assetPath`, current or not, or null for unregistered paths.
+     */
+    private async versionAt(assetPath: string): Promise<CDNAssetVersion | null> {
+        const registry = await RegistryView.load(this.backend, await this.getRef());
+        const asset = await registry.find(a => GithubCDN.versionsOf(a).some(v => v.path === assetPath));
+        return asset ? GithubCDN.versionsOf(asset).find(v => v.path === assetPath)! : null;
+    }
+
+    /**
+     * Picks the shard for a new asset according to `shardPolicy`.
+     */
+    private async pickShard(assetId: string): Promise<Shard> {
+        if (this.pool.length === 1) return this.pool[0];
+        switch (this.config.shardPolicy) {
+            case "hash":
+                return this.pool[fnv1a(assetId) % this.pool.length];
+            case "least-full": {
+                // Per-shard byte counts are kept in the registry's root index, so no page is read
+                const usage = new Map(this.pool.map(s => [s, 0]));
+                const { summary } = await RegistryView.load(this.backend, await this.getRef());
+                for (const page of summary.pages) {
+                    for (const [id, bytes] of Object.entries(page.shardBytes)) {
+                        const shard = this.pool.find(s => s.id === (id || this.index.id));
+                        if (shard) usage.set(shard, usage.get(shard)! + bytes);
+                    }
+                }
+                return [...usage].reduce((min, entry) => (entry[1] < min[1] ? entry : min))[0];
+            }
+            default:
+                return this.pool[this.nextShard++ % this.pool.length];
         }
     }
 
     /**
-     * Internal REST API client.
+     * Subscribes to lifecycle events: `asset.uploaded`, `asset.deleted`, `registry.synced` and
+     * `upload.failed`, or every event with `*`. Listeners run once the operation is over; what they
+     * throw is ignored.
+     * @returns A function that unsubscribes the listener.
+     * @example
+     * cdn.on("asset.uploaded", ({ data }) => console.log(data.asset.links.cdn));
      */
-    private async request(path: string, options: RequestInit = {}) {
-        const url = `https://api.github.com/repos/${this.config.owner}/${this.config.repo}${path}`;
-        const headers = {
-            Authorization: `token ${this.config.token}`,
-            "User-Agent": this.config.userAgent,
-            Accept: "application/json",
-            ...options.headers,
-        };
+    public on<T extends CDNEventType>(type: T, listener: (event: CDNEvent<T>) => void): () => void;
+    public on(type: "*", listener: (event: CDNEvent) => void): () => void;
+    public on(type: CDNEventType | "*", listener: (event: never) => void): () => void {
+        const registered = listener as (event: CDNEvent) => void;
+        if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+        this.listeners.get(type)!.add(registered);
+        return () => this.off(type, registered);
+    }
 
-        const res = await fetch(url, { ...options, headers });
-        if (!res.ok) {
-            const err = await res.json().catch(() => ({ message: res.statusText }));
-            throw new Error(`GitHub API Error (${res.status}): ${err.message}`);
+    /**
+     * Removes a listener added with `on()`.
+     */
+    public off(type: CDNEventType | "*", listener: (event: never) => void): void {
+        this.listeners.get(type)?.delete(listener as (event: CDNEvent) => void);
+    }
+
+    private emitEvent<T extends CDNEventType>(type: T, data: CDNEventMap[T]): void {
+        const event = { id: crypto.randomUUID(), type, createdAt: new Date().toISOString(), data } as CDNEvent;
+        for (const listener of [...this.listeners.get(type) ?? [], ...this.listeners.get("*") ?? []]) {
+            // Listeners must not fail the operation they are told about, nor hold it up
+            Promise.resolve().then(() => listener(event)).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Runs an upload, emitting `upload.failed` with `names` before rethrowing what it throws.
+     */
+    private async reportingFailure<T>(names: string[], upload: () => Promise<T>, sessionId?: string): Promise<T> {
+        try {
+            return await upload();
+        } catch (e) {
+            this.emitEvent("upload.failed", {
+                names,
+                error: e instanceof Error ? e.message : String(e),
+                code: e instanceof CDNError ? e.name : undefined,
+                sessionId
+            });
+            throw e;
         }
-        return res.json();
+    }
+
+    /**
+     * Verifies connection and credentials by pinging the repository and every shard.
+     * @returns Promise<boolean> - True if all repositories are accessible.
+     */
+    public async ping(): Promise<boolean> {
+        const shards = new Set([this.index, ...this.pool]);
+        const results = await Promise.all([...shards].map(s => s.backend.ping()));
+        return results.every(Boolean);
+    }
+
+    /**
+     * Current GitHub API budget of the main repository's token.
+     * @param refresh - Ask GitHub first (free of quota) instead of reporting the last known state.
+     * @returns Promise<CDNRateLimitStatus>
+     */
+    async rateLimit(refresh = false): Promise<CDNRateLimitStatus> {
+        if (refresh && this.backend instanceof GithubBackend) await this.backend.refreshRateLimit();
+        return this.config.rateLimiter.getStatus();
     }
 
     /**
      * Resolves all public URLs for a given asset.
-     * @param asset - Object containing path and id of the asset.
+     * The CDN and raw URLs are pinned to `asset.commit` when known: a commit never changes, so
+     * jsDelivr serves it at once and caches it for good, where a branch ref is cached for hours.
+     * @param asset - Object containing path, id, (for sharded assets) shard and the commit holding the asset.
+     * @param sign - Sign the origin proxy links with these restrictions (requires `signing`).
      * @returns CDNLinks - Object containing URLs for different providers.
      */
-    public resolveLinks(asset: { path: string; id: string }): CDNLinks {
-        const base = `https://cdn.jsdelivr.net/gh/${this.config.owner}/${this.config.repo}@${this.config.branch}/${asset.path}`;
+    public resolveLinks(asset: { path: string; id: string; shard?: string; commit?: string }, sign?: CDNSignOptions): CDNLinks {
+        const { owner, repo, branch, id } = this.shardOf(asset.shard);
+        const ref = asset.commit ?? branch;
+        const base = `https://cdn.jsdelivr.net/gh/${owner}/${repo}@${ref}/${asset.path}`;
         const links: CDNLinks = {
             cdn: `${base}/manifest.json`,
-            fastly: `https://fastly.jsdelivr.net/gh/${this.config.owner}/${this.config.repo}@${this.config.branch}/${asset.path}/manifest.json`,
-            raw: `https://raw.githubusercontent.com/${this.config.owner}/${this.config.repo}/${this.config.branch}/${asset.path}/manifest.json`,
-            origin: `/api/fetch?file=${asset.path}` // Standard proxy convention
+            fastly: `https://fastly.jsdelivr.net/gh/${owner}/${repo}@${ref}/${asset.path}/manifest.json`,
+            raw: `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${asset.path}/manifest.json`,
+            // Standard proxy convention
+            origin: `/api/fetch?file=${asset.path}${id === this.index.id ? "" : `&shard=${encodeURIComponent(id)}`}`,
+            stable: `/api/fetch?id=${encodeURIComponent(asset.id)}`
         };
+        if (sign) {
+            links.origin = this.signLink(links.origin, sign);
+            links.stable = this.signLink(links.stable!, sign);
+        }
         return links;
     }
 
     /**
-     * Lists current assets from the global registry.
-     * @returns Promise<CDNAsset[]> - Array of registered assets.
+     * Hands the public URLs a write made stale to every configured purger and logs each outcome.
+     * These are the `resolveLinks` URLs of `targets` at the branch (and at their pinned commit) plus
+     * the registry files listing them. A failed purge is reported as a warning: the write has landed.
+     * @param withLinks - False when only the registry changed.
      */
-    async list(): Promise<CDNAsset[]> {
-        try {
-            const res = await this.request(`/contents/registry.json`);
-            const assets: CDNAsset[] = JSON.parse(Buffer.from(res.content, "base64").toString("utf-8"));
-            // Inject links dynamically if missing
-            return assets.map(a => ({ ...a, links: a.links || this.resolveLinks(a) }));
-        } catch (e) {
-            return [];
+    private async invalidate(targets: PurgeTarget[], onUpdate?: (log: CDNLog) => void, withLinks = true): Promise<void> {
+        if (!this.config.purgers.length) return;
+        const urls = new Set<string>();
+        for (const target of withLinks ? targets : []) {
+            const links = [this.resolveLinks({ ...target, commit: undefined })];
+            if (target.commit) links.push(this.resolveLinks(target));
+            for (const { cdn, fastly, raw, origin, stable } of links) {
+                for (const url of [cdn, fastly, raw, origin, stable]) if (url) urls.add(url);
+            }
+        }
+        const pages = targets.flatMap(({ uploadedAt }) => (uploadedAt ? [pagePath(pageKey({ uploadedAt }))] : []));
+        const registryFiles = new Set([REGISTRY_INDEX, ...pages]);
+        for (const path of registryFiles) {
+            for (const url of this.backend.publicUrls(this.config.branch, path)) urls.add(url);
         }
+
+        await Promise.all(this.config.purgers.map(async purger => {
+            try {
+                const purged = await withRetry(() => purger.purge([...urls]), this.config.retry);
+                onUpdate?.({ type: "log", message: `Purged ${purged.length} URLs from ${purger.name}.`, logType: "success", urls: purged });
+            } catch (e) {
+                onUpdate?.({ type: "log", message: `Purge from ${purger.name} failed: ${e instanceof Error ? e.message : e}`, logType: "warning" });
+            }
+        }));
     }
 
     /**
-     * High-Performance Physical Purge (Removes asset folders from Git history).
+     * Signs an origin proxy link (e.g. `links.origin`) with an expiry and optional IP / disposition binding.
+     * Every query parameter is covered, so none can be changed without breaking the signature.
+     *
+     * @param link - Relative or absolute proxy URL.
+     * @param options - Lifetime, client IP and Content-Disposition to bind.
+     * @returns string - The link with `exp`, `sig` and any bound parameters appended.
+     * @throws ValidationError - If no signing secret is configured.
+     */
+    public signLink(link: string, options: CDNSignOptions = {}): string {
+        if (!this.config.signing) throw new ValidationError("Link signing is not configured.");
+        const url = new URL(link, "http://origin");
+        const params = url.searchParams;
+        const ttl = options.expiresIn ?? this.config.signing.ttl ?? 3600;
+        params.set("exp", String(Math.floor(Date.now() / 1000) + ttl));
+        if (options.ip) params.set("ip", options.ip);
+        if (options.disposition) params.set("disposition", options.disposition);
+        params.set("sig", signParams(this.config.signing.secret, params));
+        return /^https?:/.test(link) ? url.toString() : `${url.pathname}?${params}`;
+    }
+
+    /** True when `signing` is configured, i.e. the origin proxy expects signed links. */
+    public get signsLinks(): boolean {
+        return !!this.config.signing;
+    }
+
+    /**
+     * Checks the query of a request to the origin proxy. Always valid when signing is not configured.
+     *
+     * @param params - Query parameters of the request.
+     * @param clientIp - Address of the requesting client, for IP-bound links.
+     * @returns CDNSignatureCheck - Whether to serve the request, and until when.
+     */
+    public verifyLink(params: URLSearchParams, clientIp?: string | null): CDNSignatureCheck {
+        if (!this.config.signing) return { valid: true };
+        const sig = params.get("sig");
+        const exp = Number(params.get("exp"));
+        if (!sig || !exp) return { valid: false, reason: "Missing signature" };
+        if (!safeEqual(sig, signParams(this.config.signing.secret, params))) return { valid: false, reason: "Invalid signature" };
+        const expiresAt = new Date(exp * 1000);
+        if (expiresAt.getTime() <= Date.now()) return { valid: false, reason: "Link expired", expiresAt };
+        const ip = params.get("ip");
+        if (ip && ip !== clientIp) return { valid: false, reason: "Link is bound to another client", expiresAt };
+        return { valid: true, expiresAt };
+    }
+
+    /**
+     * Lists assets from the global registry, which spans every shard, newest first. Trashed assets are skipped.
+     * Only the month pages needed to fill `limit` are read.
+     *
+     * @param options - Page size, cursor from the previous call and path, folder or tag filters.
+     * @returns Promise<CDNListResult> - The assets and the cursor of the next page (null at the end).
+     * @throws ValidationError for a malformed cursor. NotFoundError, UnauthorizedError, RateLimitedError or
+     * UpstreamUnavailableError when the registry cannot be read; a branch without one yields `registryMissing: true` instead.
+     */
+    async list(options: CDNListOptions = {}): Promise<CDNListResult> {
+        const limit = Math.max(1, options.limit ?? 100);
+        const folder = options.folder ? normalizeFolder(options.folder) : undefined;
+        const last = options.cursor ? decodeCursor(options.cursor) : null;
+
+        const registry = await RegistryView.load(this.backend, await this.getRef());
+        if (!registry.exists) return { assets: [], cursor: null, registryMissing: true };
+        const assets: CDNAsset[] = [];
+        for (const key of registry.keys()) {
+            if (last && key > pageKey(last)) continue;
+            for (const asset of await registry.page(key)) {
+                if (last && compareAssets(asset, last) <= 0) continue;
+                if (asset.trashedAt) continue;
+                if (options.prefix && !asset.path.startsWith(options.prefix)) continue;
+                if (folder && asset.folder !== folder && !asset.folder?.startsWith(`${folder}/`)) continue;
+                if (options.tag && !asset.tags?.includes(options.tag)) continue;
+                // Inject links dynamically if missing
+                assets.push({ ...asset, links: asset.links || this.resolveLinks(asset) });
+            }
+            // One extra match tells whether another page exists
+            if (assets.length > limit) break;
+        }
+
+        const more = assets.length > limit;
+        const page = assets.slice(0, limit);
+        const end = page[page.length - 1];
+        return { assets: page, cursor: more ? btoa(`${end.uploadedAt}|${end.id}`) : null };
+    }
+
+    /**
+     * Deletes an asset: moves it to the trash when `softDelete` is enabled, purges it otherwise.
      * @param id - Unique asset ID.
      * @param folderPath - Path to the asset folder in the repo.
      * @param onUpdate - Optional callback for streaming logs.
      * @returns Promise<boolean> - True if successful.
      */
     async delete(id: string, folderPath: string, onUpdate?: (log: CDNLog) => void): Promise<boolean> {
-        const emit = (message: string, logType: CDNLog["logType"] = "process") => {
-            onUpdate?.({ type: "log", message, logType });
-        };
+        if (this.config.softDelete) {
+            await this.trash(id, onUpdate);
+            return true;
+        }
+        return this.purge(id, folderPath, onUpdate);
+    }
+
+    /**
+     * Deletes several assets in one commit: trashes them when `softDelete` is enabled, purges them otherwise.
+     * Nothing is deleted unless every id is registered.
+     * @param ids - Unique asset IDs.
+     * @param onUpdate - Optional callback for logs; per-asset logs carry the asset's `item` position.
+     * @returns Promise<boolean> - True if successful.
+     */
+    async deleteMany(ids: string[], onUpdate?: (log: CDNLog) => void): Promise<boolean> {
+        if (this.config.softDelete) {
+            const assets = await this.setTrashed(ids, new Date().toISOString(), onUpdate);
+            onUpdate?.({ type: "done", message: `Moved ${assets.length} assets to trash.`, assets });
+            return true;
+        }
+        return this.purgeMany(ids, onUpdate);
+    }
 
-        emit(`Purging entry: ${id}`, "warning");
-        const ref = await this.request(`/git/refs/heads/${this.config.branch}`);
-        const headSha = ref.object.sha;
+    /**
+     * High-Performance Physical Purge (Removes asset folders from Git history).
+     * Every stored version of the asset is removed.
+     * @param id - Unique asset ID.
+     * @param folderPath - Path to the asset folder in the repo.
+     * @param onUpdate - Optional callback for streaming logs.
+     * @returns Promise<boolean> - True if successful.
+     */
+    async purge(id: string, folderPath: string, onUpdate?: (log: CDNLog) => void): Promise<boolean> {
+        await this.scrub([{ id, path: folderPath }], onUpdate);
+        onUpdate?.({ type: "done", message: "Asset scrubbing complete." });
+        return true;
+    }
 
-        emit("Filtering repository tree...", "info");
-        const treeData = await this.request(`/git/trees/${headSha}?recursive=1`);
-        const filtered = treeData.tree.filter((i: any) => !i.path.startsWith(folderPath));
+    /**
+     * Permanently purges several assets, every version included, with one commit per shard involved.
+     * @param ids - Unique asset IDs; all must be registered.
+     * @param onUpdate - Optional callback for logs; per-asset logs carry the asset's `item` position.
+     * @returns Promise<boolean> - True if successful.
+     */
+    async purgeMany(ids: string[], onUpdate?: (log: CDNLog) => void): Promise<boolean> {
+        await this.scrub(ids.map(id => ({ id })), onUpdate);
+        onUpdate?.({ type: "done", message: `Scrubbed ${ids.length} assets.` });
+        return true;
+    }
 
-        emit("Patching registry index...", "info");
-        const regNode = filtered.find((i: any) => i.path === "registry.json");
-        const regBlob = await this.request(`/git/blobs/${regNode.sha}`);
-        let registry = JSON.parse(Buffer.from(regBlob.content, "base64").toString("utf-8"));
-        registry = registry.filter((a: any) => a.id !== id);
+    /**
+     * Removes the data of `targets` and their registry entries.
+     * A target missing from the registry is only scrubbed if its folder path is given.
+     */
+    private async scrub(targets: Array<{ id: string; path?: string }>, onUpdate?: (log: CDNLog) => void): Promise<void> {
+        const emit = (message: string, logType: CDNLog["logType"] = "process", item?: number) => {
+            onUpdate?.({ type: "log", message, logType, item });
+        };
+        if (!targets.length) throw new ValidationError("Nothing to purge.");
 
-        const newReg = await this.request(`/git/blobs`, {
-            method: "POST",
-            body: JSON.stringify({ content: Buffer.from(JSON.stringify(registry, null, 2)).toString("base64"), encoding: "base64" })
-        });
+        const registry = await RegistryView.load(this.backend, await this.getRef());
+        const folders = new Map<Shard, string[]>();
+        const removed: PurgeTarget[] = [];
+        const deleted: CDNEventMap["asset.deleted"][] = [];
+        for (const [item, { id, path }] of targets.entries()) {
+            emit(`Purging entry: ${id}`, "info", item);
+            const asset = await registry.find(a => a.id === id);
+            deleted.push({ id, trashed: false, asset: asset ?? undefined });
+            if (!asset && !path) throw new NotFoundError(`Asset not found: ${id}`);
+            for (const v of asset ? GithubCDN.versionsOf(asset) : [{ path: path!, shard: undefined }]) {
+                const shard = this.shardOf(v.shard);
+                folders.set(shard, [...folders.get(shard) ?? [], v.path]);
+                removed.push({ ...v, id, uploadedAt: asset?.uploadedAt });
+            }
+        }
 
         emit("Committing physical scrub...", "process");
-        const finalTree = filtered
-            .filter((i: any) => i.type === "blob")
-            .map((i: any) => {
-                if (i.path === "registry.json") return { path: i.path, mode: i.mode, type: i.type, sha: newReg.sha };
-                return { path: i.path, mode: i.mode, type: i.type, sha: i.sha };
-            });
+        const ids = targets.map(t => t.id);
+        const message = ids.length === 1 ? `Scrub: ${ids[0]}` : `Scrub: ${ids.length} assets`;
+        const groups = [...folders];
+        for (const [n, [shard, paths]] of groups.entries()) {
+            // Versions may span shards; the registry entries go with the last one
+            await this.commit({
+                message,
+                remove: paths,
+                shard: shard.id,
+                registry: n === groups.length - 1 ? async registry => {
+                    for (const id of ids) await registry.remove(id);
+                } : undefined
+            }, onUpdate);
+        }
 
-        const newTree = await this.request(`/git/trees`, { method: "POST", body: JSON.stringify({ tree: finalTree }) });
-        const commit = await this.request(`/git/commits`, {
-            method: "POST",
-            body: JSON.stringify({ message: `Scrub: ${id}`, tree: newTree.sha, parents: [headSha] })
-        });
+        emit("Purge verified.", "success");
+        await this.forgetEntries(deleted.flatMap(d => (d.asset ? [d.asset] : [])));
+        await this.invalidate(removed, onUpdate);
+        for (const data of deleted) this.emitEvent("asset.deleted", data);
+    }
 
-        await this.request(`/git/refs/heads/${this.config.branch}`, { method: "PATCH", body: JSON.stringify({ sha: commit.sha }) });
+    /**
+     * Soft delete: marks the registry entry as trashed. Data stays in place until `purgeTrash()`.
+     * @param id - Unique asset ID.
+     * @param onUpdate - Optional callback for streaming logs.
+     * @returns Promise<CDNAsset> - The trashed asset.
+     */
+    async trash(id: string, onUpdate?: (log: CDNLog) => void): Promise<CDNAsset> {
+        const [asset] = await this.setTrashed([id], new Date().toISOString(), onUpdate);
+        onUpdate?.({ type: "done", message: "Moved to trash.", asset });
+        return asset;
+    }
 
-        emit("Purge verified.", "success");
-        onUpdate?.({ type: "done", message: "Asset scrubbing complete." });
-        return true;
+    /**
+     * Takes an asset out of the trash.
+     * @param id - Unique asset ID.
+     * @param onUpdate - Optional callback for streaming logs.
+     * @returns Promise<CDNAsset> - The restored asset.
+     */
+    async restore(id: string, onUpdate?: (log: CDNLog) => void): Promise<CDNAsset> {
+        const [asset] = await this.setTrashed([id], undefined, onUpdate);
+        onUpdate?.({ type: "done", message: "Asset restored.", asset });
+        return asset;
+    }
+
+    /**
+     * Sets or clears `trashedAt` on the registry entries of `ids`. Entries already in that state are left alone:
+     * trashing again would extend their retention. Nothing is committed when no entry changes.
+     * @returns The entries of `ids`, in order.
+     */
+    private async setTrashed(ids: string[], trashedAt: string | undefined, onUpdate?: (log: CDNLog) => void): Promise<CDNAsset[]> {
+        if (!ids.length) throw new ValidationError("Nothing to update.");
+        const settled = (asset: CDNAsset) => !!asset.trashedAt === !!trashedAt;
+        const find = async (registry: CDNRegistry, id: string) => {
+            const asset = await registry.find(a => a.id === id);
+            if (!asset) throw new NotFoundError(`Asset not found: ${id}`);
+            return asset;
+        };
+
+        const current = await RegistryView.load(this.backend, await this.getRef());
+        let entries: CDNAsset[] = [];
+        for (const id of ids) entries.push(await find(current, id));
+        if (entries.every(settled)) {
+            onUpdate?.({ type: "log", message: `Already ${trashedAt ? "in the trash" : "restored"}.`, logType: "info" });
+            return entries;
+        }
+
+        let updated: CDNAsset[] = [];
+        await this.commit({
+            message: `${trashedAt ? "Trash" : "Restore"}: ${ids.length === 1 ? ids[0] : `${ids.length} assets`}`,
+            registry: async registry => {
+                entries = [];
+                updated = [];
+                for (const id of ids) {
+                    const asset = await find(registry, id);
+                    if (settled(asset)) {
+                        entries.push(asset);
+                        continue;
+                    }
+                    entries.push({ ...asset, trashedAt });
+                    updated.push(entries[entries.length - 1]);
+                    await registry.put(entries[entries.length - 1]);
+                }
+            }
+        }, onUpdate);
+        for (const asset of updated) {
+            onUpdate?.({ type: "log", message: `${trashedAt ? "Trashed" : "Restored"}: ${asset.id}`, logType: "info", item: ids.indexOf(asset.id) });
+        }
+        await this.forgetEntries(updated);
+        await this.invalidate(updated, onUpdate);
+        if (trashedAt) for (const asset of updated) this.emitEvent("asset.deleted", { id: asset.id, trashed: true, asset });
+        return entries;
+    }
+
+    /**
+     * Lists trashed assets, most recently trashed first.
+     * @returns Promise<CDNAsset[]>
+     */
+    async listTrash(): Promise<CDNAsset[]> {
+        const registry = await RegistryView.load(this.backend, await this.getRef());
+        return (await registry.all())
+            .filter(a => a.trashedAt)
+            .sort((a, b) => (a.trashedAt! < b.trashedAt! ? 1 : -1))
+            .map(a => ({ ...a, links: a.links || this.resolveLinks(a) }));
+    }
+
+    /**
+     * Permanently purges trashed assets older than `trashRetention`. Meant to run on a schedule.
+     * @param onUpdate - Optional callback for streaming logs.
+     * @returns Promise<{ purged: string[] }> - Ids of the purged assets.
+     */
+    async purgeTrash(onUpdate?: (log: CDNLog) => void): Promise<{ purged: string[] }> {
+        const cutoff = Date.now() - this.config.trashRetention * 1000;
+        const expired = (await this.listTrash()).filter(a => Date.parse(a.trashedAt!) <= cutoff);
+        onUpdate?.({ type: "log", message: `${expired.length} trashed assets past retention.`, logType: "info" });
+
+        const purged = expired.map(a => a.id);
+        if (purged.length) await this.scrub(purged.map(id => ({ id })), onUpdate);
+        return { purged };
+    }
+
+    /**
+     * Changes an asset's metadata, tags or virtual folder in the registry and its manifest.
+     * Both are patched on the latest head, so concurrent updates to different keys all land.
+     *
+     * @param id - Unique asset ID.
+     * @param patch - Metadata keys to set or remove (null), new tags and/or folder.
+     * @param onUpdate - Optional callback for streaming logs.
+     * @returns Promise<CDNAsset> - The updated asset.
+     */
+    async updateMetadata(id: string, patch: CDNMetadataPatch, onUpdate?: (log: CDNLog) => void): Promise<CDNAsset> {
+        const current = await (await RegistryView.load(this.backend, await this.getRef())).find(a => a.id === id);
+        if (!current) throw new NotFoundError(`Asset not found: ${id}`);
+        patchAttributes(current, patch); // Validates before anything is written
+
+        const shard = this.shardOf(current.shard);
+        const manifestPath = `${current.path}/manifest.json`;
+        // Patched on every attempt's head like the registry, so concurrent updates to different keys all land in both
+        const tree = async (headSha: string): Promise<CDNTreeItem[]> => {
+            const content = await shard.backend.readFile(headSha, manifestPath);
+            if (!content) return [];
+            const manifest = patchAttributes<CDNManifest>(JSON.parse(new TextDecoder().decode(content)), patch);
+            const sha = await shard.backend.createBlob(new TextEncoder().encode(JSON.stringify(manifest)));
+            return [{ path: manifestPath, mode: "100644", type: "blob", sha }];
+        };
+
+        let updated: CDNAsset | null = null;
+        await this.commit({
+            message: `Metadata: ${id}`,
+            tree,
+            shard: shard.id,
+            pin: true,
+            registry: async (registry, _, dataCommit) => {
+                const asset = await registry.find(a => a.id === id);
+                if (!asset) throw new NotFoundError(`Asset not found: ${id}`);
+                updated = patchAttributes(asset, patch);
+                // Pinned links must serve the patched manifest, so they move to the commit holding it
+                if (dataCommit) updated = this.repin(updated, dataCommit);
+                await registry.put(updated);
+            }
+        }, onUpdate);
+        // Other instances pick the new manifest up once their copy expires (`cacheTTL`)
+        await this.config.cache?.delete(this.cacheKey(shard, manifestPath)).catch(() => undefined);
+        await this.invalidate([current, updated!], onUpdate);
+
+        onUpdate?.({ type: "done", message: "Metadata updated.", asset: updated! });
+        return updated!;
+    }
+
+    /**
+     * Points an asset's current version and links at `commit`.
+     */
+    private repin(asset: CDNAsset, commit: string): CDNAsset {
+        const versions = asset.versions?.map(v => (v.version === asset.version ? { ...v, commit } : v));
+        return { ...asset, commit, versions, links: this.resolveLinks({ ...asset, commit }) };
+    }
+
+    /**
+     * Every version of an asset, oldest first. Unversioned assets have a single version 1.
+     */
+    public static versionsOf(asset: CDNAsset): CDNAssetVersion[] {
+        return asset.versions ?? [{
+            version: 1, name: asset.name, path: asset.path, size: asset.size, type: asset.type,
+            digest: asset.digest, shard: asset.shard, commit: asset.commit, uploadedAt: asset.uploadedAt
+        }];
+    }
+
+    /**
+     * Finds a stored version of an asset.
+     *
+     * @param idOrPath - Asset id, or the folder path of any of its versions.
+     * @param version - Version number (default: the current version).
+     * @returns Promise<{ asset: CDNAsset; version: CDNAssetVersion }> - The registry entry and the selected version.
+     */
+    async resolveVersion(idOrPath: string, version?: number): Promise<{ asset: CDNAsset; version: CDNAssetVersion }> {
+        const asset = await this.getAsset(idOrPath);
+        if (!asset) throw new NotFoundError(`Asset not found: ${idOrPath}`);
+        const found = GithubCDN.versionOf(asset, version);
+        if (!found) throw new NotFoundError(`Version ${version} of ${asset.id} not found.`);
+        return { asset, version: found };
+    }
+
+    /**
+     * Looks up a registry entry, trashed or not.
+     * @param idOrPath - Asset id, or the folder path of any of its versions.
+     * @returns Promise<CDNAsset | null> - Null if the registry has no such asset.
+     */
+    async getAsset(idOrPath: string): Promise<CDNAsset | null> {
+        const registry = await RegistryView.load(this.backend, await this.getRef());
+        return registry.find(a => a.id === idOrPath || GithubCDN.versionsOf(a).some(v => v.path === idOrPath));
+    }
+
+    /**
+     * `getAsset()` through the configured cache, for hot paths such as a fetch proxy: a found entry is kept
+     * for `cacheTTL` seconds. Trashing, restoring, purging, rolling back and new versions drop it right away.
+     * @param idOrPath - Asset id, or the folder path of any of its versions.
+     * @returns Promise<CDNAsset | null> - Null if the registry has no such asset (never cached).
+     */
+    async getCachedAsset(idOrPath: string): Promise<CDNAsset | null> {
+        const key = this.entryCacheKey(idOrPath);
+        const cached = await this.config.cache?.get(key).catch(() => null);
+        if (cached) return JSON.parse(new TextDecoder().decode(cached));
+
+        const asset = await this.getAsset(idOrPath);
+        if (asset) await this.config.cache?.put(key, new TextEncoder().encode(JSON.stringify(asset)), this.config.cacheTTL).catch(() => undefined);
+        return asset;
+    }
+
+    private entryCacheKey(idOrPath: string) {
+        return `${this.index.id}/registry/${idOrPath}`;
+    }
+
+    /**
+     * Drops the cached registry entries of `assets` (see `getCachedAsset`), by id and by every version's path.
+     */
+    private async forgetEntries(assets: CDNAsset[]): Promise<void> {
+        const keys = assets.flatMap(a => [a.id, ...GithubCDN.versionsOf(a).map(v => v.path)]);
+        await Promise.all(keys.map(key => this.config.cache?.delete(this.entryCacheKey(key)).catch(() => undefined)));
+    }
+
+    /**
+     * Picks one version of an asset (default: the current one), or null if it does not exist.
+     */
+    public static versionOf(asset: CDNAsset, version?: number): CDNAssetVersion | null {
+        const wanted = version ?? asset.version ?? 1;
+        return GithubCDN.versionsOf(asset).find(v => v.version === wanted) ?? null;
+    }
+
+    /**
+     * Lists the stored versions of an asset, oldest first.
+     * @param id - Unique asset ID.
+     * @returns Promise<CDNAssetVersion[]>
+     */
+    async versions(id: string): Promise<CDNAssetVersion[]> {
+        return GithubCDN.versionsOf((await this.resolveVersion(id)).asset);
+    }
+
+    /**
+     * Makes an earlier (or later) stored version current again. No data is deleted.
+     *
+     * @param id - Unique asset ID.
+     * @param version - Version number to serve by default.
+     * @param onUpdate - Optional callback for streaming logs.
+     * @returns Promise<CDNAsset> - The asset as now registered.
+     */
+    async rollback(id: string, version: number, onUpdate?: (log: CDNLog) => void): Promise<CDNAsset> {
+        let updated: CDNAsset | null = null;
+        await this.commit({
+            message: `Rollback: ${id} to v${version}`,
+            registry: async registry => {
+                const asset = await registry.find(a => a.id === id);
+                if (!asset) throw new NotFoundError(`Asset not found: ${id}`);
+                const target = GithubCDN.versionsOf(asset).find(v => v.version === version);
+                if (!target) throw new NotFoundError(`Version ${version} of ${id} not found.`);
+                updated = this.withVersion(asset, GithubCDN.versionsOf(asset), target);
+                await registry.put(updated);
+            }
+        }, onUpdate);
+        await this.forgetEntries([updated!]);
+        await this.invalidate([updated!], onUpdate);
+
+        onUpdate?.({ type: "done", message: `Rolled back to v${version}.`, asset: updated! });
+        return updated!;
+    }
+
+    /**
+     * Registry entry of `asset` with `current` as its served version.
+     */
+    private withVersion(asset: CDNAsset, versions: CDNAssetVersion[], current: CDNAssetVersion): CDNAsset {
+        const { name, path, size, type, digest, shard, commit } = current;
+        return {
+            ...asset, name, path, size, type, digest, shard, commit,
+            version: current.version,
+            versions,
+            links: this.resolveLinks({ path, id: asset.id, shard, commit })
+        };
+    }
+
+    /**
+     * Registry change for a freshly stored upload: a new entry, or the next version of `replaces`.
+     * @param commit - Commit holding the upload's data, which its links are pinned to.
+     * @returns The entry as written.
+     */
+    private async register(registry: CDNRegistry, stored: CDNAsset, replaces?: string, commit?: string | null): Promise<CDNAsset> {
+        if (commit) stored = this.repin(stored, commit);
+        if (!replaces) {
+            await registry.put(stored);
+            return stored;
+        }
+
+        const asset = await registry.find(a => a.id === replaces);
+        if (!asset) throw new NotFoundError(`Asset not found: ${replaces}`);
+        const versions = GithubCDN.versionsOf(asset);
+        const next: CDNAssetVersion = {
+            ...GithubCDN.versionsOf(stored)[0],
+            version: Math.max(...versions.map(v => v.version)) + 1
+        };
+        const entry = this.withVersion({
+            ...asset,
+            metadata: stored.metadata ?? asset.metadata,
+            tags: stored.tags ?? asset.tags,
+            folder: stored.folder ?? asset.folder
+        }, [...versions, next], next);
+        await registry.put(entry);
+        return entry;
     }
 
     async getRef(branch = this.config.branch): Promise<string> {
-        const ref = await this.request(`/git/refs/heads/${branch}`);
-        return ref.object.sha;
+        return this.backend.getRef(branch);
     }
 
     async createBlob(content: Buffer | Uint8Array | ArrayBuffer): Promise<string> {
-        const res = await this.request(`/git/blobs`, {
-            method: "POST",
-            body: JSON.stringify({
-                content: Buffer.from(content as any).toString("base64"),
-                encoding: "base64"
-            })
-        });
-        return res.sha;
+        return this.backend.createBlob(content instanceof ArrayBuffer ? new Uint8Array(content) : content);
     }
 
-    async createTree(baseSha: string, items: { path: string, mode: string, type: string, sha: string }[]): Promise<string> {
-        const res = await this.request(`/git/trees`, {
-            method: "POST",
-            body: JSON.stringify({ base_tree: baseSha, tree: items })
-        });
-        return res.sha;
+    /**
+     * Creates a tree. Pass `null` as base to build a standalone tree from `items` alone.
+     */
+    async createTree(baseSha: string | null, items: CDNTreeItem[]): Promise<string> {
+        return this.backend.createTree(baseSha, items);
     }
 
     async createCommit(message: string, treeSha: string, parents: string[]): Promise<string> {
-        const res = await this.request(`/git/commits`, {
-            method: "POST",
-            body: JSON.stringify({ message, tree: treeSha, parents })
-        });
-        return res.sha;
+        return this.backend.createCommit(message, treeSha, parents);
     }
 
     async updateRef(commitSha: string, branch = this.config.branch): Promise<void> {
-        await this.request(`/git/refs/heads/${branch}`, {
-            method: "PATCH",
-            body: JSON.stringify({ sha: commitSha })
-        });
+        await this.backend.updateRef(branch, commitSha);
+    }
+
+    /**
+     * Transactional commit on the storage branch.
+     * Each attempt reads the latest head, re-applies this operation's registry change to the
+     * registry found there, builds the tree on that head and fast-forwards the branch.
+     * When the ref moved in the meantime, it backs off and retries until `commitAttempts` is exhausted.
+     * Data on another shard is committed there first; the registry change follows on the main repository.
+     *
+     * @param tx - Tree entries, removals and registry change making up the operation.
+     * @param onUpdate - Optional callback for streaming logs.
+     * @returns Promise<CDNCommitResult> - The new commit SHA and the registry it contains.
+     */
+    async commit(tx: CDNTransaction, onUpdate?: (log: CDNLog) => void): Promise<CDNCommitResult> {
+        const shard = this.shardOf(tx.shard);
+        if (shard === this.index || (!tx.tree && !tx.remove)) return this.commitTo(this.index, tx, onUpdate);
+
+        // Not atomic across repositories: if the registry commit fails, `sync()` picks the asset up again
+        const data = await this.commitTo(shard, { message: tx.message, tree: tx.tree, remove: tx.remove }, onUpdate);
+        if (!tx.registry) return data;
+        const { registry } = await this.commitTo(this.index, { message: tx.message, registry: tx.registry }, onUpdate, data.sha);
+        return { sha: data.sha, registry };
     }
 
     /**
-     * Universal Upload Method (Supports File, Blob, and Node Buffer).
+     * @param dataCommit - Commit already holding this operation's data on another shard.
+     */
+    private async commitTo(shard: Shard, tx: CDNTransaction, onUpdate?: (log: CDNLog) => void, dataCommit: string | null = null): Promise<CDNCommitResult> {
+        const attempts = this.config.commitAttempts;
+        const { backend, branch } = shard;
+
+        for (let attempt = 1; ; attempt++) {
+            const headSha = await backend.getRef(branch);
+            let items: CDNTreeItem[] = typeof tx.tree === "function" ? await tx.tree(headSha) : [...tx.tree ?? []];
+            let parent = headSha;
+            const removals = tx.remove ? [tx.remove].flat() : [];
+
+            // The data gets a commit of its own first; the registry commit follows on top of it
+            if (tx.pin && items.length && tx.registry && !removals.length) {
+                dataCommit = await backend.createCommit(tx.message, await backend.createTree(headSha, items), [headSha]);
+                parent = dataCommit;
+                items = [];
+            }
+            let baseTree: string | null = parent;
+
+            let registry: CDNRegistryIndex | null = null;
+            if (tx.registry) {
+                const view = await RegistryView.load(backend, headSha);
+                await tx.registry(view, headSha, dataCommit);
+                const saved = await view.save();
+                registry = saved.index;
+                // The legacy single-file registry goes away once its entries are split into pages
+                if (view.migrated) removals.push(LEGACY_REGISTRY);
+                const written = new Set(saved.items.map(i => i.path));
+                items = [...items.filter(i => !written.has(i.path)), ...saved.items];
+            }
+
+            if (removals.length) {
+                // Removals need a full tree without base_tree so dropped paths disappear
+                const kept = (await backend.getTree(parent, true))
+                    .filter(i => i.type === "blob" && !removals.some(prefix => i.path.startsWith(prefix)))
+                    .map(i => ({ path: i.path, mode: i.mode, type: i.type, sha: i.sha }));
+                const overridden = new Set(items.map(i => i.path));
+                items = [...kept.filter(i => !overridden.has(i.path)), ...items];
+                baseTree = null;
+            }
+
+            const treeSha = await backend.createTree(baseTree, items);
+            const commitSha = await backend.createCommit(parent === headSha ? tx.message : `Registry: ${tx.message}`, treeSha, [parent]);
+
+            try {
+                await backend.updateRef(branch, commitSha);
+                return { sha: commitSha, registry };
+            } catch (e) {
+                if (!isRefConflict(e) || attempt >= attempts) throw e;
+                const delay = Math.min(250 * 2 ** (attempt - 1), 4000) + Math.floor(Math.random() * 100);
+                onUpdate?.({
+                    type: "log",
+                    message: `Branch moved during commit. Rebasing (attempt ${attempt + 1}/${attempts}) in ${delay}ms...`,
+                    logType: "warning"
+                });
+                await sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * Universal Upload Method (Supports File, Blob, Node Buffer and streams).
+     * Input is read incrementally and cut into chunks as data arrives, so memory stays
+     * bounded by the chunk size even for streams of unknown length.
      * Automatically handles chunking and atomic commits.
      * 
-     * @param input - File, Blob, or Buffer to upload.
-     * @param onUpdate - Optional callback for progress and logs.
+     * @param input - File, Blob, Buffer, ReadableStream or Node.js Readable to upload.
+     * @param onUpdate - Optional callback for progress and logs, or an options object.
      * @returns Promise<CDNAsset> - The uploaded asset metadata.
      * @deprecated For Vercel/Serverless environments with small payload limits, 
      * use granular methods if the file is extremely large.
      */
     async upload(
-        input: File | Blob | Buffer | { name: string; type: string; buffer: ArrayBuffer },
-        onUpdate?: (log: CDNLog) => void
+        input: CDNUploadInput,
+        onUpdate?: ((log: CDNLog) => void) | CDNUploadOptions
     ): Promise<CDNAsset> {
-        let name = "asset_" + Date.now();
-        let type = "application/octet-stream";
-        let buffer: ArrayBuffer;
+        const options: CDNUploadOptions = typeof onUpdate === "function" ? { onUpdate } : onUpdate ?? {};
+        return this.reportingFailure([options.name ?? inputName(input)], async () => {
+            // Fail before any chunk is pushed; the version is assigned at commit time
+            attributes(options);
+            if (options.replaces) await this.resolveVersion(options.replaces);
+            const { asset, tree } = await this.store(input, options);
 
-        if (input instanceof Blob) {
-            type = input.type;
-            if ("name" in input) name = (input as any).name;
-            buffer = await input.arrayBuffer() as ArrayBuffer;
+            options.onUpdate?.({ type: "log", message: "Creating atomic commit...", logType: "process" });
+            let committed = asset;
+            await this.commit({
+                message: `CDN Upload: ${asset.name}`,
+                tree,
+                shard: asset.shard,
+                pin: true,
+                registry: async (registry, _, dataCommit) => { committed = await this.register(registry, asset, options.replaces, dataCommit); }
+            }, options.onUpdate);
+
+            const chunks = tree.length - 1;
+            options.onUpdate?.({
+                type: "log",
+                message: "Upload successful.",
+                logType: "success",
+                progress: { percentage: 100, currentChunk: chunks, totalChunks: chunks, loaded: asset.size, total: asset.size, stage: "Upload successful." }
+            });
+            // A new version changes what the asset's id serves
+            if (options.replaces) await this.forgetEntries([committed]);
+            await this.invalidate([committed], options.onUpdate);
+            this.emitEvent("asset.uploaded", { asset: committed });
+            options.onUpdate?.({ type: "done", message: "Success", asset: committed });
+            return committed;
+        });
+    }
+
+    /**
+     * Uploads several files in one commit: every file is chunked and pushed first,
+     * then a single tree and registry change lands them all at once.
+     * If anything fails before the branch is updated, the branch is left as it was.
+     * All files of a batch go to the same shard.
+     *
+     * @param items - Inputs, or `{ input, ...options }` for per-file names, types and attributes.
+     * @param onUpdate - Optional callback for logs; per-file logs carry the file's `item` position.
+     * @returns Promise<CDNAsset[]> - The committed assets, in input order.
+     */
+    async uploadMany(
+        items: Array<CDNUploadInput | CDNBatchUploadItem>,
+        onUpdate?: (log: CDNLog) => void
+    ): Promise<CDNAsset[]> {
+        if (!items.length) throw new ValidationError("Nothing to upload.");
+        const batch = items.map(item => (typeof item === "object" && "input" in item ? item : { input: item }));
+        return this.reportingFailure(batch.map(b => b.name ?? inputName(b.input)), async () => {
+            for (const { replaces, ...attrs } of batch) {
+                attributes(attrs);
+                if (replaces) await this.resolveVersion(replaces);
+            }
+
+            const stored: CDNAsset[] = [];
+            const tree: CDNTreeItem[] = [];
+            let shard: Shard | undefined;
+            for (const [item, { input, ...options }] of batch.entries()) {
+                const forward = (log: CDNLog) => onUpdate?.({ ...log, item });
+                const result = await this.store(input, { ...options, onUpdate: forward }, shard);
+                shard = this.shardOf(result.asset.shard);
+                stored.push(result.asset);
+                tree.push(...result.tree);
+                forward({ type: "log", message: `Stored ${item + 1}/${batch.length}: ${result.asset.name}`, logType: "success" });
+            }
+
+            onUpdate?.({ type: "log", message: `Creating atomic commit for ${stored.length} files...`, logType: "process" });
+            let committed = stored;
+            await this.commit({
+                message: `CDN Upload: ${stored.length} files`,
+                tree,
+                shard: shard!.id,
+                pin: true,
+                registry: async (registry, _, dataCommit) => {
+                    committed = [];
+                    for (const [i, asset] of stored.entries()) committed.push(await this.register(registry, asset, batch[i].replaces, dataCommit));
+                }
+            }, onUpdate);
+            await this.forgetEntries(committed.filter((_, i) => batch[i].replaces));
+            await this.invalidate(committed, onUpdate);
+            for (const asset of committed) this.emitEvent("asset.uploaded", { asset });
+
+            onUpdate?.({ type: "done", message: `Uploaded ${committed.length} files.`, assets: committed });
+            return committed;
+        });
+    }
+
+    /**
+     * Chunks, encrypts/compresses and pushes one input and its manifest as blobs, without committing.
+     * @param target - Shard to store on (default: picked by `shardPolicy`).
+     * @returns The asset entry to register and the tree entries holding its data.
+     */
+    private async store(
+        input: CDNUploadInput,
+        options: CDNUploadOptions,
+        target?: Shard
+    ): Promise<{ asset: CDNAsset; tree: CDNTreeItem[] }> {
+        const attrs = attributes(options);
+        let name = options.name ?? "asset_" + Date.now();
+        let type = options.type ?? "application/octet-stream";
+        let expectedSize = options.size ?? 0;
+        let source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array> | Uint8Array;
+
+        if (input instanceof ReadableStream) {
+            source = input;
+        } else if (input instanceof Blob) {
+            type = options.type ?? input.type;
+            if ("name" in input && !options.name) name = (input as File).name;
+            expectedSize = input.size;
+            source = input.stream();
         } else if (Buffer.isBuffer(input)) {
-            buffer = (input.buffer as ArrayBuffer).slice(input.byteOffset, input.byteOffset + input.byteLength);
+            expectedSize = input.byteLength;
+            source = input;
         } else if ("buffer" in input && input.buffer instanceof ArrayBuffer) {
             name = input.name;
             type = input.type;
-            buffer = input.buffer;
+            expectedSize = input.buffer.byteLength;
+            source = new Uint8Array(input.buffer);
+        } else if (Symbol.asyncIterator in input) {
+            source = input;
         } else {
-            throw new Error("Unsupported upload input Type. Use File, Blob, or Buffer.");
+            throw new ValidationError("Unsupported upload input Type. Use File, Blob, Buffer or a stream.");
         }
 
         const CHUNK_SIZE = 5 * 1024 * 1024;
-        const totalSize = buffer.byteLength;
-        const totalChunks = Math.ceil(totalSize / CHUNK_SIZE);
-        const uniqueId = Math.random().toString(36).substring(2, 10) + "_" + Date.now().toString(36);
-        const now = new Date();
-        const path = `uploads/${now.getFullYear()}_${String(now.getMonth() + 1).padStart(2, "0")}/${uniqueId}_${name.replace(/[^a-zA-Z0-9._-]/g, "_")}`;
+        const { uniqueId, now, path, shard } = await this.allocate(name, target);
 
+        // Byte counts are only final once the input is drained; until then, the known size (if any) is the estimate
+        let totalSize = 0;
+        let totalChunks = 0;
         const emit = (message: string, logType: CDNLog["logType"] = "process", progress?: Partial<CDNProgress>) => {
-            onUpdate?.({
+            const total = Math.max(expectedSize, totalSize);
+            const loaded = progress?.loaded ?? 0;
+            options.onUpdate?.({
                 type: "log",
                 message,
                 logType,
                 progress: progress ? {
-                    percentage: Math.round(((progress.currentChunk || 0) / totalChunks) * 100),
+                    percentage: total ? Math.round((loaded / total) * 100) : 0,
                     currentChunk: progress.currentChunk || 0,
-                    totalChunks,
-                    loaded: (progress.currentChunk || 0) * CHUNK_SIZE,
-                    total: totalSize,
+                    totalChunks: Math.max(Math.ceil(expectedSize / CHUNK_SIZE), totalChunks),
+                    loaded,
+                    total,
                     stage: message
                 } as CDNProgress : undefined
             });
         };
 
-        emit(`Inverting Data: ${name}`, "info", { currentChunk: 0 });
+        emit(`Inverting Data: ${name}`, "info", { currentChunk: 0, loaded: 0 });
 
-        const ref = await this.request(`/git/refs/heads/${this.config.branch}`);
-        const baseSha = ref.object.sha;
+        const treeItems: CDNTreeItem[] = [];
+        const chunkDigests: string[] = [];
+        const encryption: CDNEncryptionInfo | undefined = this.config.encryption
+            ? { algorithm: "AES-GCM", keyId: this.config.encryption.activeKeyId, ivs: [] }
+            : undefined;
+        const codec = this.compressionFor(type);
+        const compression: CDNCompressionInfo | undefined = codec
+            ? { codec, originalSize: 0, storedSize: 0, chunkSizes: [] }
+            : undefined;
+        if (encryption) emit(`Encrypting chunks with key "${encryption.keyId}"...`, "info");
+        if (compression) emit(`Compressing chunks with ${compression.codec}...`, "info");
 
-        const treeItems = [];
-        for (let i = 0; i < totalChunks; i++) {
-            emit(`Pushing chunk ${i + 1}/${totalChunks}...`, "process", { currentChunk: i + 1 });
-            const chunk = buffer.slice(i * CHUNK_SIZE, Math.min((i + 1) * CHUNK_SIZE, totalSize));
-            const blob = await this.request(`/git/blobs`, {
-                method: "POST",
-                body: JSON.stringify({ content: Buffer.from(chunk).toString("base64"), encoding: "base64" })
-            });
-            treeItems.push({ path: `${path}/chunk_${i + 1}`, mode: "100644", type: "blob", sha: blob.sha });
+        const fileHash = new Sha256();
+        for await (const plain of chunked(source, CHUNK_SIZE)) {
+            const i = totalChunks++;
+            totalSize += plain.byteLength;
+            fileHash.update(plain);
+            emit(`Pushing chunk ${i + 1}...`, "process", { currentChunk: i + 1, loaded: totalSize });
+            const prepared = await this.prepareChunk(plain, uniqueId, i + 1, type);
+            const chunk = prepared.data;
+            if (encryption) encryption.ivs.push(prepared.iv!);
+            if (compression) {
+                compression.chunkSizes.push(prepared.encodedSize);
+                compression.storedSize += prepared.encodedSize;
+            }
+            chunkDigests.push(prepared.digest);
+            const blobSha = await shard.backend.createBlob(chunk);
+            treeItems.push({ path: `${path}/chunk_${i + 1}`, mode: "100644", type: "blob", sha: blobSha });
         }
 
-        emit("Finalizing manifest...", "info", { currentChunk: totalChunks });
+        emit("Finalizing manifest...", "info", { currentChunk: totalChunks, loaded: totalSize });
+        const digest = fileHash.digest();
+        if (compression) compression.originalSize = totalSize;
         const manifest: CDNManifest = {
             id: uniqueId, fileName: name, uniqueId, totalChunks, chunkSize: CHUNK_SIZE,
-            totalSize, mimeType: type, pathPrefix: path, uploadedAt: now.toISOString(), optimized: true
+            totalSize, mimeType: type, pathPrefix: path, uploadedAt: now.toISOString(), optimized: true,
+            digest, chunkDigests, encryption, compression, ...attrs, assetId: options.replaces
         };
-        const mBlob = await this.request(`/git/blobs`, {
-            method: "POST",
-            body: JSON.stringify({ content: Buffer.from(JSON.stringify(manifest)).toString("base64"), encoding: "base64" })
-        });
-        treeItems.push({ path: `${path}/manifest.json`, mode: "100644", type: "blob", sha: mBlob.sha });
+        const mSha = await shard.backend.createBlob(Buffer.from(JSON.stringify(manifest)));
+        treeItems.push({ path: `${path}/manifest.json`, mode: "100644", type: "blob", sha: mSha });
 
-        emit("Synchronizing registry...", "info");
-        const registry = await this.list();
-        const newAsset: CDNAsset = {
-            id: uniqueId, name, size: totalSize, type, path, uploadedAt: now.toISOString(),
-            links: this.resolveLinks({ path, id: uniqueId })
+        const asset: CDNAsset = {
+            id: uniqueId, name, size: totalSize, type, path, uploadedAt: now.toISOString(), digest, shard: shard.id,
+            ...attrs,
+            links: this.resolveLinks({ path, id: uniqueId, shard: shard.id })
         };
-        registry.unshift(newAsset);
-        const rBlob = await this.request(`/git/blobs`, {
-            method: "POST",
-            body: JSON.stringify({ content: Buffer.from(JSON.stringify(registry, null, 2)).toString("base64"), encoding: "base64" })
-        });
-        treeItems.push({ path: `registry.json`, mode: "100644", type: "blob", sha: rBlob.sha });
 
-        emit("Creating atomic commit...", "process");
-        const tree = await this.request(`/git/trees`, { method: "POST", body: JSON.stringify({ base_tree: baseSha, tree: treeItems }) });
-        const commit = await this.request(`/git/commits`, {
-            method: "POST",
-            body: JSON.stringify({ message: `CDN Upload: ${name}`, tree: tree.sha, parents: [baseSha] })
+        return { asset, tree: treeItems };
+    }
+
+    /**
+     * Reserves a unique id, shard and repository folder for a new asset.
+     */
+    private async allocate(name: string, shard?: Shard): Promise<{ uniqueId: string; now: Date; path: string; shard: Shard }> {
+        const uniqueId = Math.random().toString(36).substring(2, 10) + "_" + Date.now().toString(36);
+        const now = new Date();
+        const path = `uploads/${now.getFullYear()}_${String(now.getMonth() + 1).padStart(2, "0")}/${uniqueId}_${name.replace(/[^a-zA-Z0-9._-]/g, "_")}`;
+        return { uniqueId, now, path, shard: shard ?? await this.pickShard(uniqueId) };
+    }
+
+    /**
+     * Opens a resumable upload session. Chunks are then pushed with `uploadChunk` (in any
+     * order, across requests or processes) and committed with `finalizeSession`.
+     *
+     * @param init - File name, MIME type, size, optional chunk size and asset attributes.
+     * @returns Promise<CDNUploadSession> - The persisted session; its id is also the asset id.
+     */
+    async createSession(init: CDNSessionInit): Promise<CDNUploadSession> {
+        const chunkSize = init.chunkSize ?? 4 * 1024 * 1024;
+        if (init.totalSize < 0 || chunkSize <= 0) throw new ValidationError("Invalid upload session size.");
+        const attrs = attributes(init);
+        if (init.replaces) await this.resolveVersion(init.replaces);
+        const { uniqueId, now, path, shard } = await this.allocate(init.fileName);
+        const session: CDNUploadSession = {
+            id: uniqueId,
+            fileName: init.fileName,
+            mimeType: init.mimeType || "application/octet-stream",
+            pathPrefix: path,
+            shard: shard.id,
+            replaces: init.replaces,
+            totalSize: init.totalSize,
+            chunkSize,
+            totalChunks: Math.ceil(init.totalSize / chunkSize),
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + this.config.sessionTTL * 1000).toISOString(),
+            chunks: {},
+            ...attrs
+        };
+        await this.sessions.update(session.id, () => session);
+        return session;
+    }
+
+    /**
+     * Loads an upload session.
+     * @returns Promise<CDNUploadSession | null> - Null if unknown or expired.
+     */
+    async getSession(sessionId: string): Promise<CDNUploadSession | null> {
+        return this.sessions.get(sessionId);
+    }
+
+    /**
+     * Chunk numbers (1-based) a session still needs.
+     */
+    public static missingChunks(session: CDNUploadSession): number[] {
+        return Array.from({ length: session.totalChunks }, (_, i) => i + 1).filter(i => !session.chunks[i]);
+    }
+
+    /**
+     * Stores one chunk of a session and records it by index. Re-sending a chunk replaces it.
+     *
+     * @param sessionId - Upload session id.
+     * @param index - 1-based chunk number.
+     * @param data - Plaintext chunk; must be exactly `chunkSize` bytes except for the last chunk.
+     * @returns Promise<CDNSessionChunk> - The recorded chunk.
+     */
+    async uploadChunk(sessionId: string, index: number, data: ArrayBuffer | Uint8Array): Promise<CDNSessionChunk> {
+        const session = await this.sessions.get(sessionId);
+        if (!session) throw new NotFoundError("Upload session not found or expired.");
+        if (!Number.isInteger(index) || index < 1 || index > session.totalChunks) {
+            throw new ValidationError(`Chunk index ${index} is out of range (1-${session.totalChunks}).`);
+        }
+        const expectedSize = Math.min(session.chunkSize, session.totalSize - (index - 1) * session.chunkSize);
+        if (data.byteLength !== expectedSize) {
+            throw new ValidationError(`Chunk ${index} must be ${expectedSize} bytes, got ${data.byteLength}.`);
+        }
+
+        const prepared = await this.prepareChunk(data, session.id, index, session.mimeType);
+        const { data: stored, ...record } = prepared;
+        const chunk: CDNSessionChunk = { sha: await this.shardOf(session.shard).backend.createBlob(stored), ...record };
+
+        const updated = await this.sessions.update(sessionId, current =>
+            current && { ...current, chunks: { ...current.chunks, [index]: chunk } }
+        );
+        if (!updated) throw new NotFoundError("Upload session not found or expired.");
+        return chunk;
+    }
+
+    /**
+     * Commits a session whose chunks are all stored, using the chunk list recorded server-side,
+     * then closes the session. The stored chunks are read back and hashed to compute the whole-file digest.
+     *
+     * @param sessionId - Upload session id.
+     * @param options - Whole-file SHA-256 the client expects (rejected with a ValidationError if the chunks
+     * hash to something else), asset attributes and log callback.
+     * @returns Promise<CDNAsset> - The committed asset.
+     */
+    async finalizeSession(sessionId: string, options: CDNFinalizeOptions = {}): Promise<CDNAsset> {
+        const session = await this.sessions.get(sessionId);
+        if (!session) throw new NotFoundError("Upload session not found or expired.");
+        return this.reportingFailure([session.fileName], async () => {
+            const attrs = { ...attributes(session), ...attributes(options) };
+            const missing = GithubCDN.missingChunks(session);
+            if (missing.length) throw new ConflictError(`Upload session is missing chunks: ${missing.join(", ")}.`);
+
+            const chunks = Array.from({ length: session.totalChunks }, (_, i) => session.chunks[i + 1]);
+            const keyIds = new Set(chunks.map(c => c.keyId));
+            const codecs = new Set(chunks.map(c => c.codec));
+            if (keyIds.size > 1 || codecs.size > 1) {
+                throw new ConflictError("Chunks were stored with different encryption keys or codecs. Re-upload them.");
+            }
+            const [keyId] = keyIds;
+            const [codec] = codecs;
+            const encryption: CDNEncryptionInfo | undefined = keyId ? { algorithm: "AES-GCM", keyId, ivs: chunks.map(c => c.iv!) } : undefined;
+
+            // The client's digest is only recorded once the stored chunks, decoded in order, hash to it
+            const backend = this.shardOf(session.shard).backend;
+            const hash = new Sha256();
+            for (const [i, c] of chunks.entries()) {
+                let bytes = await backend.getBlob(c.sha);
+                if (encryption) bytes = await this.decryptChunk(bytes, session.id, i + 1, encryption);
+                if (codec) bytes = await transcode(bytes, new DecompressionStream(codec));
+                hash.update(bytes);
+            }
+            const digest = hash.digest();
+            if (options.digest && options.digest.toLowerCase() !== digest) {
+                throw new ValidationError(`Digest ${options.digest} does not match the uploaded chunks (${digest}).`);
+            }
+
+            const treeItems: CDNTreeItem[] = chunks.map((c, i) => ({
+                path: `${session.pathPrefix}/chunk_${i + 1}`, mode: "100644", type: "blob", sha: c.sha
+            }));
+            const manifest: CDNManifest = {
+                id: session.id, fileName: session.fileName, uniqueId: session.id, totalChunks: session.totalChunks,
+                chunkSize: session.chunkSize, totalSize: session.totalSize, mimeType: session.mimeType,
+                pathPrefix: session.pathPrefix, uploadedAt: session.createdAt, optimized: true,
+                digest,
+                ...attrs,
+                assetId: session.replaces,
+                chunkDigests: chunks.map(c => c.digest),
+                encryption,
+                compression: codec ? {
+                    codec,
+                    originalSize: session.totalSize,
+                    storedSize: chunks.reduce((n, c) => n + c.encodedSize, 0),
+                    chunkSizes: chunks.map(c => c.encodedSize)
+                } : undefined
+            };
+            const mSha = await backend.createBlob(Buffer.from(JSON.stringify(manifest)));
+            treeItems.push({ path: `${session.pathPrefix}/manifest.json`, mode: "100644", type: "blob", sha: mSha });
+
+            const newAsset: CDNAsset = {
+                id: session.id, name: session.fileName, size: session.totalSize, type: session.mimeType,
+                path: session.pathPrefix, uploadedAt: session.createdAt, digest, shard: session.shard,
+                ...attrs,
+                links: this.resolveLinks({ path: session.pathPrefix, id: session.id, shard: session.shard })
+            };
+
+            let committed = newAsset;
+            await this.commit({
+                message: `CDN Upload: ${session.fileName}`,
+                tree: treeItems,
+                shard: session.shard,
+                pin: true,
+                registry: async (registry, _, dataCommit) => { committed = await this.register(registry, newAsset, session.replaces, dataCommit); }
+            }, options.onUpdate);
+
+            await this.sessions.update(sessionId, () => null);
+            if (session.replaces) await this.forgetEntries([committed]);
+            await this.invalidate([committed], options.onUpdate);
+            this.emitEvent("asset.uploaded", { asset: committed });
+            options.onUpdate?.({ type: "done", message: "Success", asset: committed });
+            return committed;
+        }, sessionId);
+    }
+
+    /**
+     * Continues an interrupted session: pushes only the chunks it is missing, then finalizes.
+     *
+     * @param sessionId - Upload session id (e.g. kept in localStorage).
+     * @param file - The same file the session was opened for.
+     * @param onUpdate - Optional callback for progress and logs.
+     * @returns Promise<CDNAsset> - The committed asset.
+     */
+    async resumeUpload(sessionId: string, file: Blob, onUpdate?: (log: CDNLog) => void): Promise<CDNAsset> {
+        const session = await this.sessions.get(sessionId);
+        if (!session) throw new NotFoundError("Upload session not found or expired.");
+        if (file.size !== session.totalSize) throw new ValidationError("File does not match the upload session.");
+
+        const missing = GithubCDN.missingChunks(session);
+        const emit = (message: string, logType: CDNLog["logType"] = "process", done = 0) => {
+            const loaded = Math.min(session.totalSize, (session.totalChunks - missing.length + done) * session.chunkSize);
+            onUpdate?.({
+                type: "log",
+                message,
+                logType,
+                progress: {
+                    percentage: session.totalSize ? Math.round((loaded / session.totalSize) * 100) : 100,
+                    currentChunk: session.totalChunks - missing.length + done,
+                    totalChunks: session.totalChunks,
+                    loaded,
+                    total: session.totalSize,
+                    stage: message
+                }
+            });
+        };
+
+        emit(`Resuming ${session.fileName}: ${missing.length}/${session.totalChunks} chunks left.`, "info");
+        for (const [n, index] of missing.entries()) {
+            const start = (index - 1) * session.chunkSize;
+            await this.uploadChunk(sessionId, index, await file.slice(start, start + session.chunkSize).arrayBuffer());
+            emit(`Pushed chunk ${index}/${session.totalChunks}.`, "process", n + 1);
+        }
+
+        const hash = new Sha256();
+        for await (const piece of pieces(file.stream())) hash.update(piece);
+        emit("Creating atomic commit...", "process", missing.length);
+        return this.finalizeSession(sessionId, { digest: hash.digest(), onUpdate });
+    }
+
+    /**
+     * Computes the hex-encoded SHA-256 digest used for chunk and file integrity.
+     * Relies on WebCrypto, available in Node.js 18+, Edge runtimes and the Browser.
+     *
+     * @param data - Bytes to hash.
+     * @returns Promise<string> - Lowercase hex digest.
+     */
+    public static async digest(data: ArrayBuffer | Uint8Array): Promise<string> {
+        const hash = await crypto.subtle.digest("SHA-256", data as BufferSource);
+        return Array.from(new Uint8Array(hash), b => b.toString(16).padStart(2, "0")).join("");
+    }
+
+    /**
+     * True for MIME types that shrink meaningfully under gzip/deflate (text, JSON, SVG, WASM...).
+     */
+    public static isCompressible(mimeType: string): boolean {
+        const mime = mimeType.split(";")[0].trim().toLowerCase();
+        return mime.startsWith("text/")
+            || /[/+](json|xml)$/.test(mime)
+            || ["image/svg+xml", "application/wasm", "application/javascript", "application/x-javascript", "application/ecmascript"].includes(mime);
+    }
+
+    /**
+     * Codec applied to chunks of the given MIME type, or null if they are stored as-is.
+     */
+    public compressionFor(mimeType: string): CDNCompressionCodec | null {
+        return this.config.compression && GithubCDN.isCompressible(mimeType) ? this.config.compression : null;
+    }
+
+    /**
+     * Turns a plaintext chunk into the bytes that get stored: compressed for compressible
+     * MIME types, then encrypted when encryption is configured, then digested.
+     * Shared by `upload()` and the granular `createBlob` flow.
+     *
+     * @param data - Plaintext chunk.
+     * @param assetId - Asset the chunk belongs to (`manifest.id`).
+     * @param index - 1-based chunk number, as in `chunk_<index>`.
+     * @param mimeType - MIME type of the asset.
+     * @returns Promise<CDNPreparedChunk> - Stored bytes plus the values to record in the manifest.
+     */
+    async prepareChunk(data: ArrayBuffer | Uint8Array, assetId: string, index: number, mimeType: string): Promise<CDNPreparedChunk> {
+        let bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+        const codec = this.compressionFor(mimeType);
+        if (codec) bytes = await transcode(bytes, new CompressionStream(codec));
+        const encodedSize = bytes.byteLength;
+
+        let sealed: { iv: string; keyId: string } | undefined;
+        if (this.config.encryption) {
+            const result = await this.encryptChunk(bytes, assetId, index);
+            bytes = result.data;
+            sealed = { iv: result.iv, keyId: result.keyId };
+        }
+
+        return { data: bytes, digest: await GithubCDN.digest(bytes), encodedSize, ...(codec ? { codec } : {}), ...sealed };
+    }
+
+    /**
+     * True when `delete()` and `deleteMany()` move assets to the trash rather than purging them.
+     */
+    public get softDeletes(): boolean {
+        return !!this.config.softDelete;
+    }
+
+    /**
+     * True when new uploads are encrypted client-side.
+     */
+    public get encryptionEnabled(): boolean {
+        return !!this.config.encryption;
+    }
+
+    /**
+     * Encrypts a chunk with the active AES-GCM key before it is stored.
+     * The asset id and chunk number are bound as additional data, so chunks cannot be swapped.
+     *
+     * @param data - Plaintext chunk.
+     * @param assetId - Asset the chunk belongs to (`manifest.id`).
+     * @param index - 1-based chunk number, as in `chunk_<index>`.
+     * @returns Promise<{ data: Uint8Array; iv: string; keyId: string }> - Ciphertext, base64 IV and the key id used.
+     * @throws ValidationError - If encryption is not configured; IntegrityError if the active key id has no key.
+     */
+    async encryptChunk(data: ArrayBuffer | Uint8Array, assetId: string, index: number): Promise<{ data: Uint8Array; iv: string; keyId: string }> {
+        if (!this.config.encryption) throw new ValidationError("Encryption is not configured.");
+        const keyId = this.config.encryption.activeKeyId;
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const sealed = await crypto.subtle.encrypt(
+            { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(`${assetId}/chunk_${index}`) },
+            await this.cryptoKey(keyId),
+            data as BufferSource
+        );
+        return { data: new Uint8Array(sealed), iv: Buffer.from(iv).toString("base64"), keyId };
+    }
+
+    /**
+     * Decrypts a stored chunk using the key id recorded in its manifest.
+     *
+     * @param data - Ciphertext as stored in the repository.
+     * @param assetId - Asset the chunk belongs to (`manifest.id`).
+     * @param index - 1-based chunk number.
+     * @param info - The manifest's encryption block.
+     * @returns Promise<Uint8Array> - Plaintext chunk.
+     */
+    async decryptChunk(data: Uint8Array, assetId: string, index: number, info: CDNEncryptionInfo): Promise<Uint8Array> {
+        const plain = await crypto.subtle.decrypt(
+            {
+                name: "AES-GCM",
+                iv: Buffer.from(info.ivs[index - 1], "base64"),
+                additionalData: new TextEncoder().encode(`${assetId}/chunk_${index}`)
+            },
+            await this.cryptoKey(info.keyId),
+            data as BufferSource
+        ).catch(() => {
+            throw new IntegrityError(`Decryption failed for chunk ${index} of ${assetId}.`);
         });
+        return new Uint8Array(plain);
+    }
+
+    /**
+     * Resolves (and caches) a configured key by id. Raw keys are imported once.
+     */
+    private cryptoKey(keyId: string): Promise<CryptoKey> {
+        const key = this.config.encryption?.keys[keyId];
+        if (!key) return Promise.reject(new IntegrityError(`Unknown encryption key id "${keyId}".`));
+        if (typeof key !== "string") return Promise.resolve(key);
+        if (!this.cryptoKeys.has(keyId)) {
+            this.cryptoKeys.set(keyId, crypto.subtle.importKey("raw", Buffer.from(key, "base64"), "AES-GCM", false, ["encrypt", "decrypt"]));
+        }
+        return this.cryptoKeys.get(keyId)!;
+    }
+
+    /**
+     * Parses an HTTP `Range` header against an asset of the given size.
+     * Only single `bytes=` ranges are honoured; anything else is ignored.
+     *
+     * @param header - Raw `Range` header value (e.g. `bytes=0-1023`).
+     * @param totalSize - Total size of the asset in bytes.
+     * @returns CDNRange | null - Inclusive byte range, or null if the header should be ignored.
+     * @throws RangeError - If the range cannot be satisfied for this asset.
+     */
+    public static parseRange(header: string, totalSize: number): CDNRange | null {
+        const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+        if (!match || (!match[1] && !match[2])) return null;
 
-        await this.request(`/git/refs/heads/${this.config.branch}`, { method: "PATCH", body: JSON.stringify({ sha: commit.sha }) });
+        let start: number;
+        let end: number;
+        if (!match[1]) {
+            // Suffix range: the last N bytes
+            const suffix = parseInt(match[2], 10);
+            if (suffix === 0) throw new RangeError("Range Not Satisfiable");
+            start = Math.max(0, totalSize - suffix);
+            end = totalSize - 1;
+        } else {
+            start = parseInt(match[1], 10);
+            end = match[2] ? parseInt(match[2], 10) : totalSize - 1;
+            if (end < start) return null;
+            end = Math.min(end, totalSize - 1);
+        }
 
-        emit("Upload successful.", "success", { currentChunk: totalChunks });
-        onUpdate?.({ type: "done", message: "Success", asset: newAsset });
-        return newAsset;
+        if (start >= totalSize) throw new RangeError("Range Not Satisfiable");
+        return { start, end };
+    }
+
+    /**
+     * Retrieves the manifest of an asset, preferring the public CDN over authenticated GitHub Raw.
+     *
+     * @param assetPath - Repo-relative path to the asset.
+     * @param onUpdate - Optional callback for streaming logs.
+     * @param shard - Shard holding the asset (`owner/repo`); looked up in the registry when omitted.
+     * @param commit - Read the manifest as of this commit instead of the branch head.
+     * @returns Promise<{ manifest: CDNManifest; source: string }>
+     */
+    async getManifest(assetPath: string, onUpdate?: (log: CDNLog) => void, shard?: string, commit?: string): Promise<{ manifest: CDNManifest; source: string }> {
+        const location = await this.locate(a => a.path === assetPath, shard);
+        const content = await this.readAsset(location, `${assetPath}/manifest.json`, () => {
+            onUpdate?.({ type: "log", message: "CDN miss. Fetching via Auth...", logType: "warning" });
+        }, commit);
+        if (!content) throw new NotFoundError("Manifest not found.");
+        const manifest: CDNManifest = JSON.parse(new TextDecoder().decode(content.bytes));
+        return { manifest, source: content.source };
     }
 
     /**
      * Hybrid Multi-Source Retrieval. 
      * Automatically races between jsDelivr CDN and GitHub Raw for maximum speed.
+     * When a byte range is requested, only the chunks covering it are downloaded.
      * 
      * @param assetPath - Repo-relative path to the asset.
      * @param onUpdate - Optional callback for streaming logs.
-     * @returns Promise<{ stream: ReadableStream; manifest: CDNManifest }>
+     * @param options - Optional byte range, pre-loaded manifest, decompression mode, shard, version and commit
+     * (default: the commit recorded for `assetPath` in the registry, else the branch head).
+     * @returns Promise<CDNFetchResult> - The stream, its manifest, the served range and content encoding.
      */
-    async fetch(assetPath: string, onUpdate?: (log: CDNLog) => void): Promise<{ stream: ReadableStream; manifest: CDNManifest }> {
+    async fetch(
+        assetPath: string,
+        onUpdate?: (log: CDNLog) => void,
+        options: CDNFetchOptions = {}
+    ): Promise<CDNFetchResult> {
         const emit = (message: string, logType: CDNLog["logType"] = "process") => {
             onUpdate?.({ type: "log", message, logType });
         };
 
-        const sources = [
-            `https://cdn.jsdelivr.net/gh/${this.config.owner}/${this.config.repo}@${this.config.branch}/${assetPath}`,
-            `https://raw.githubusercontent.com/${this.config.owner}/${this.config.repo}/${this.config.branch}/${assetPath}`
-        ];
-
-        const getManifest = async () => {
-            try {
-                const res = await fetch(`${sources[0]}/manifest.json`, { cache: 'no-store' });
-                if (res.ok) return { res, source: "Public CDN" };
-                throw new Error();
-            } catch {
-                emit("CDN miss. Fetching via Auth...", "warning");
-                const res = await fetch(`${sources[1]}/manifest.json`, {
-                    headers: { 'Authorization': `token ${this.config.token}` },
-                    cache: 'no-store'
-                });
-                return { res, source: "GitHub Auth" };
-            }
-        };
+        const decompress = options.decompress ?? true;
+        let shardId = options.shard;
+        let commit = options.commit;
+        if (options.version !== undefined) {
+            const { version } = await this.resolveVersion(assetPath, options.version);
+            assetPath = version.path;
+            shardId = version.shard ?? this.index.id;
+            commit = version.commit;
+            emit(`Serving version ${version.version}.`, "info");
+        } else if (!commit) {
+            // Registered assets are read at their pinned commit; only unregistered or legacy ones at the branch head
+            const stored = await this.versionAt(assetPath);
+            commit = stored?.commit;
+            if (stored) shardId ??= stored.shard ?? this.index.id;
+        }
+        const shard = await this.locate(a => a.path === assetPath, shardId);
+        // Pinned sources are immutable, so public CDNs serve them without revalidating the branch
+        const ref = commit ?? shard.branch;
+        let manifest = options.manifest;
+        if (!manifest) {
+            const loaded = await this.getManifest(assetPath, onUpdate, shard.id, commit);
+            manifest = loaded.manifest;
+            emit(`Verified via ${loaded.source}. Pipelining ${manifest.totalChunks} chunks.`, "success");
+        }
 
-        const { res: mRes, source } = await getManifest();
-        if (!mRes.ok) throw new Error("Manifest not found.");
-        const manifest: CDNManifest = await mRes.json();
-        emit(`Verified via ${source}. Pipelining ${manifest.totalChunks} chunks.`, "success");
+        const range = options.range ?? null;
+        if (range && (range.start < 0 || range.end < range.start || range.start >= manifest.totalSize)) {
+            throw new RangeError("Range Not Satisfiable");
+        }
+        if (range && manifest.compression && !decompress) {
+            throw new ValidationError("Byte ranges require decompression of compressed assets.");
+        }
+        const { chunkSize } = manifest;
+        const start = range ? range.start : 0;
+        const end = range ? Math.min(range.end, manifest.totalSize - 1) : manifest.totalSize - 1;
+        const firstChunk = range ? Math.floor(start / chunkSize) + 1 : 1;
+        const lastChunk = range ? Math.floor(end / chunkSize) + 1 : manifest.totalChunks;
+        if (range) emit(`Serving bytes ${start}-${end} from chunks ${firstChunk}-${lastChunk}.`, "info");
 
         const sdk = this;
+        const chunkPath = (i: number) => `${assetPath}/chunk_${i}`;
         const stream = new ReadableStream({
             async start(controller) {
                 const chunkMap = new Map<number, Uint8Array>();
-                let next = 1;
+                let next = firstChunk;
 
                 const download = async (i: number) => {
-                    const get = async () => {
-                        try {
-                            const r = await fetch(`${sources[0]}/chunk_${i}`, { cache: 'no-store' });
-                            if (r.ok) return r;
-                            throw new Error();
-                        } catch {
-                            return fetch(`${sources[1]}/chunk_${i}`, {
-                                headers: { 'Authorization': `token ${sdk.config.token}` },
-                                cache: 'no-store'
-                            });
+                    const content = await sdk.readAsset(shard, chunkPath(i), undefined, ref);
+                    if (!content) throw new IntegrityError(`Chunk ${i} of ${manifest.fileName} not found.`);
+                    let bytes = content.bytes;
+
+                    // Verify against the manifest digest; a bad CDN or cached copy falls back to the backend once
+                    const expected = manifest.chunkDigests?.[i - 1];
+                    if (expected && await GithubCDN.digest(bytes) !== expected) {
+                        emit(`Chunk ${i} failed integrity check. Refetching via Auth...`, "warning");
+                        bytes = await shard.backend.readFile(ref, chunkPath(i)) ?? new Uint8Array();
+                        if (await GithubCDN.digest(bytes) !== expected) {
+                            throw new IntegrityError(`Integrity check failed for chunk ${i} of ${manifest.fileName}.`);
                         }
-                    };
-                    const r = await get();
-                    const b = await r.arrayBuffer();
-                    chunkMap.set(i, new Uint8Array(b));
+                        await sdk.cacheAsset(shard, chunkPath(i), bytes, ref);
+                    }
+
+                    if (manifest.encryption) {
+                        bytes = await sdk.decryptChunk(bytes, manifest.id, i, manifest.encryption);
+                    }
+                    if (manifest.compression && decompress) {
+                        bytes = await transcode(bytes, new DecompressionStream(manifest.compression.codec));
+                    }
+
+                    // Trim the edges of the requested window (offsets are relative to the chunk start)
+                    const chunkStart = (i - 1) * chunkSize;
+                    if (i === lastChunk) bytes = bytes.subarray(0, end - chunkStart + 1);
+                    if (i === firstChunk) bytes = bytes.subarray(start - chunkStart);
+                    chunkMap.set(i, bytes);
                     while (chunkMap.has(next)) {
                         controller.enqueue(chunkMap.get(next));
                         chunkMap.delete(next);
@@ -358,24 +1753,82 @@ export class GithubCDN {
                 };
 
                 const workers: Promise<void>[] = [];
-                for (let i = 1; i <= manifest.totalChunks; i++) {
-                    if (workers.length >= 10) await Promise.race(workers);
-                    const p = download(i);
-                    workers.push(p);
-                    p.finally(() => workers.splice(workers.indexOf(p), 1));
+                try {
+                    for (let i = firstChunk; i <= lastChunk; i++) {
+                        if (workers.length >= 10) await Promise.race(workers);
+                        const p = download(i);
+                        workers.push(p);
+                        // Failures surface through Promise.race/all
+                        p.finally(() => workers.splice(workers.indexOf(p), 1)).catch(() => undefined);
+                    }
+                    await Promise.all(workers);
+                } catch (e) {
+                    // Readers see a failed stream, never a truncated body passed off as complete
+                    emit(`Stream aborted: ${e instanceof Error ? e.message : e}`, "error");
+                    controller.error(e);
+                    return;
                 }
-                await Promise.all(workers);
                 controller.close();
                 emit("Stream finalized.", "success");
             }
         });
 
-        return { stream, manifest };
+        const encoding = manifest.compression && !decompress ? manifest.compression.codec : null;
+        return { stream, manifest, range: range ? { start, end } : null, encoding };
+    }
+
+    /**
+     * Reads a shard file from the configured cache, else through the backend's public CDN URLs first,
+     * then the authenticated backend, and caches what it found.
+     * A public source answering with an error status is skipped; the backend applies the retry policy.
+     * @param onMiss - Called once when every public source failed.
+     * @param ref - Branch or commit to read at (default: the shard's branch).
+     */
+    private async readAsset(shard: Shard, path: string, onMiss?: () => void, ref = shard.branch): Promise<{ bytes: Uint8Array; source: string } | null> {
+        const cached = await this.config.cache?.get(this.cacheKey(shard, path, ref));
+        if (cached) return { bytes: cached, source: "Cache" };
+
+        let found: { bytes: Uint8Array; source: string } | null = null;
+        const urls = shard.backend.publicUrls(ref, path);
+        for (const url of urls) {
+            try {
+                const res = await fetch(url, { cache: 'no-store' });
+                if (res.ok) {
+                    found = { bytes: new Uint8Array(await res.arrayBuffer()), source: "Public CDN" };
+                    break;
+                }
+            } catch {
+                // Try the next source
+            }
+        }
+        if (!found) {
+            if (urls.length) onMiss?.();
+            const bytes = await shard.backend.readFile(ref, path);
+            found = bytes ? { bytes, source: "GitHub Auth" } : null;
+        }
+        if (found) await this.cacheAsset(shard, path, found.bytes, ref);
+        return found;
+    }
+
+    private cacheKey(shard: Shard, path: string, ref = shard.branch) {
+        return `${shard.id}/${ref}/${path}`;
+    }
+
+    /**
+     * Stores a downloaded file in the configured cache. Chunk paths are never rewritten and a commit
+     * never changes, so only manifests read at the branch head expire.
+     */
+    private async cacheAsset(shard: Shard, path: string, bytes: Uint8Array, ref = shard.branch) {
+        const mutable = ref === shard.branch && path.endsWith("/manifest.json");
+        const ttl = mutable ? this.config.cacheTTL : 365 * 24 * 60 * 60;
+        // A failing cache only costs speed
+        await this.config.cache?.put(this.cacheKey(shard, path, ref), bytes, ttl).catch(() => undefined);
     }
 
     /**
      * Resynchronizes the local registry by scanning the repository for "ghost" manifests.
-     * Useful if registry.json is accidentally deleted or corrupted.
+     * Useful if the registry is accidentally deleted or corrupted. Entries without a recorded
+     * commit are pinned to the shard head they were found at.
      * 
      * @param onUpdate - Optional callback for streaming logs.
      * @returns Promise<{ recovered: number }> - Count of recovered assets.
@@ -385,44 +1838,85 @@ export class GithubCDN {
             onUpdate?.({ type: "log", message, logType });
         };
 
-        emit("Scanning deep structure...", "info");
-        const ref = await this.request(`/git/refs/heads/${this.config.branch}`);
-        const tree = await this.request(`/git/trees/${ref.object.sha}?recursive=1`);
-
-        const manifests = tree.tree.filter((i: any) => i.path.endsWith("manifest.json"));
-        emit(`Found ${manifests.length} candidate manifests. Re-indexing...`, "process");
-
-        const recovered: CDNAsset[] = [];
-        for (const m of manifests) {
-            const blob = await this.request(`/git/blobs/${m.sha}`);
-            const data: CDNManifest = JSON.parse(Buffer.from(blob.content, "base64").toString("utf-8"));
-            recovered.push({
-                id: data.id,
-                name: data.fileName,
-                size: data.totalSize,
-                type: data.mimeType,
-                path: data.pathPrefix,
-                uploadedAt: data.uploadedAt,
-                links: this.resolveLinks({ path: data.pathPrefix, id: data.id })
-            });
-        }
+        // `pinned` maps `shard/path` to the commit already recorded for it
+        const scan = async (shard: Shard, headSha: string, pinned: Map<string, string>): Promise<CDNAsset[]> => {
+            emit(`Scanning deep structure of ${shard.id}...`, "info");
+            const tree = await shard.backend.getTree(headSha, true);
 
-        const rBlob = await this.request(`/git/blobs`, {
-            method: "POST",
-            body: JSON.stringify({ content: Buffer.from(JSON.stringify(recovered, null, 2)).toString("base64"), encoding: "base64" })
-        });
+            const manifests = tree.filter(i => i.path.endsWith("manifest.json"));
+            emit(`Found ${manifests.length} candidate manifests. Re-indexing...`, "process");
 
-        const newTree = await this.request(`/git/trees`, {
-            method: "POST",
-            body: JSON.stringify({ base_tree: ref.object.sha, tree: [{ path: "registry.json", mode: "100644", type: "blob", sha: rBlob.sha }] })
-        });
+            const recovered: CDNAsset[] = [];
+            for (const m of manifests) {
+                const blob = await shard.backend.getBlob(m.sha);
+                const data: CDNManifest = JSON.parse(new TextDecoder().decode(blob));
+                // Legacy entries are pinned to the scanned head, which holds their data as well
+                const commit = pinned.get(`${shard.id}/${data.pathPrefix}`) ?? headSha;
+                recovered.push({
+                    // Later versions carry the logical id they belong to
+                    id: data.assetId ?? data.id,
+                    name: data.fileName,
+                    size: data.totalSize,
+                    type: data.mimeType,
+                    path: data.pathPrefix,
+                    uploadedAt: data.uploadedAt,
+                    digest: data.digest,
+                    shard: shard.id,
+                    metadata: data.metadata,
+                    tags: data.tags,
+                    folder: data.folder,
+                    commit,
+                    links: this.resolveLinks({ path: data.pathPrefix, id: data.assetId ?? data.id, shard: shard.id, commit })
+                });
+            }
+            return recovered;
+        };
 
-        const commit = await this.request(`/git/commits`, {
-            method: "POST",
-            body: JSON.stringify({ message: "Registry Recon", tree: newTree.sha, parents: [ref.object.sha] })
-        });
+        // Stored copies sharing an id become the versions of one asset, the newest being current
+        const merge = (stored: CDNAsset[]): CDNAsset[] => {
+            const byId = new Map<string, CDNAsset[]>();
+            for (const a of stored) byId.set(a.id, [...byId.get(a.id) ?? [], a]);
+            return [...byId.values()].map(copies => {
+                if (copies.length === 1) return copies[0];
+                copies.sort((a, b) => (a.uploadedAt < b.uploadedAt ? -1 : 1));
+                const versions = copies.map((c, i) => ({ ...GithubCDN.versionsOf(c)[0], version: i + 1 }));
+                const latest = copies[copies.length - 1];
+                const { metadata, tags, folder } = latest;
+                return this.withVersion({ ...copies[0], metadata, tags, folder }, versions, versions[versions.length - 1]);
+            });
+        };
 
-        await this.request(`/git/refs/heads/${this.config.branch}`, { method: "PATCH", body: JSON.stringify({ sha: commit.sha }) });
+        // The rebuilt registry replaces whatever is there, rescanned on every attempt across all shards
+        const shards = [...new Set([this.index, ...this.pool])];
+        let recovered: CDNAsset[] = [];
+        await this.commit({
+            message: "Registry Recon",
+            registry: async (registry, headSha) => {
+                const current = await registry.all();
+                const pinned = new Map(current.flatMap(GithubCDN.versionsOf)
+                    .filter(v => v.commit)
+                    .map(v => [`${v.shard ?? this.index.id}/${v.path}`, v.commit!]));
+                const stored: CDNAsset[] = [];
+                for (const shard of shards) {
+                    stored.push(...await scan(shard, shard === this.index ? headSha : await shard.backend.getRef(shard.branch), pinned));
+                }
+                // Trash state, rollbacks and the attributes later versions inherit only live in the registry,
+                // so registered assets keep them
+                const registered = new Map(current.map(a => [a.id, a]));
+                recovered = merge(stored).map(a => {
+                    const entry = registered.get(a.id);
+                    if (!entry) return a;
+                    const kept = GithubCDN.versionsOf(a).find(v => v.path === entry.path);
+                    if (kept && kept.version !== (a.version ?? 1)) a = this.withVersion(a, GithubCDN.versionsOf(a), kept);
+                    const { metadata, tags, folder, trashedAt } = entry;
+                    return { ...a, metadata, tags, folder, ...(trashedAt ? { trashedAt } : {}) };
+                });
+                await registry.replace(recovered);
+            }
+        }, onUpdate);
+        // Every entry was rewritten, but only the registry files changed
+        await this.invalidate(recovered, onUpdate, false);
+        this.emitEvent("registry.synced", { recovered: recovered.length });
 
         emit(`Recovery complete. ${recovered.length} assets synced.`, "success");
         return { recovered: recovered.length };
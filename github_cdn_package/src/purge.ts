@@ -0,0 +1,105 @@
+import { CDNPurger } from "./types.js";
+import { CDNError, UpstreamUnavailableError } from "./errors.js";
+
+/**
+ * POSTs a JSON body to a purge API. Unreachable endpoints and 5xx/429 answers are retryable.
+ */
+async function post(service: string, url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    let res: Response;
+    try {
+        res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(body),
+        });
+    } catch (e) {
+        throw new UpstreamUnavailableError(`${service} purge unreachable: ${e instanceof Error ? e.message : e}`, { cause: e });
+    }
+    if (!res.ok) {
+        throw new CDNError(`${service} purge failed (${res.status}): ${await res.text().catch(() => "")}`, {
+            status: res.status,
+            retryable: res.status >= 500 || res.status === 429,
+        });
+    }
+    return res;
+}
+
+const unique = (values: string[]) => [...new Set(values)];
+
+/**
+ * Purges jsDelivr's cache of `cdn.jsdelivr.net` and `fastly.jsdelivr.net` URLs; other URLs are skipped.
+ * Both hosts share one cache, so each file is purged once.
+ * @example
+ * const cdn = new GithubCDN({ token, owner, repo, purgers: [new JsDelivrPurger()] });
+ */
+export class JsDelivrPurger implements CDNPurger {
+    readonly name = "jsDelivr";
+
+    /**
+     * @param endpoint - Purge API (default: `https://purge.jsdelivr.net/`).
+     */
+    constructor(private readonly endpoint = "https://purge.jsdelivr.net/") { }
+
+    async purge(urls: string[]): Promise<string[]> {
+        const served = urls.filter(url => /^https:\/\/(cdn|fastly)\.jsdelivr\.net\//.test(url));
+        const paths = unique(served.map(url => new URL(url).pathname));
+        if (paths.length) await post(this.name, this.endpoint, { path: paths });
+        return served;
+    }
+}
+
+/**
+ * Sends every URL to an endpoint of your own as `{ "urls": [...] }`, e.g. a purge worker in front of
+ * another CDN. Origin proxy links stay relative (`/api/fetch?...`).
+ * @example
+ * new HttpPurger("https://cdn.example.com/purge", { Authorization: `Bearer ${secret}` })
+ */
+export class HttpPurger implements CDNPurger {
+    readonly name: string;
+
+    /**
+     * @param endpoint - URL the list is POSTed to; any 2xx answer counts as purged.
+     * @param headers - Extra request headers, e.g. credentials.
+     */
+    constructor(private readonly endpoint: string, private readonly headers: Record<string, string> = {}) {
+        this.name = new URL(endpoint).host;
+    }
+
+    async purge(urls: string[]): Promise<string[]> {
+        if (urls.length) await post(this.name, this.endpoint, { urls }, this.headers);
+        return urls;
+    }
+}
+
+/**
+ * Purges files from a Cloudflare zone, typically the one serving the `/api/fetch` origin proxy.
+ * Relative links are resolved against `baseUrl`; absolute URLs on other hosts are skipped.
+ * @example
+ * new CloudflarePurger({ zoneId, token, baseUrl: "https://cdn.example.com" })
+ */
+export class CloudflarePurger implements CDNPurger {
+    readonly name = "Cloudflare";
+
+    /**
+     * @param options.zoneId - Zone the URLs are cached in.
+     * @param options.token - API token with the Cache Purge permission.
+     * @param options.baseUrl - Public origin of the deployment.
+     * @param options.endpoint - API base (default: `https://api.cloudflare.com/client/v4`).
+     */
+    constructor(private readonly options: { zoneId: string; token: string; baseUrl: string; endpoint?: string }) { }
+
+    async purge(urls: string[]): Promise<string[]> {
+        const { host } = new URL(this.options.baseUrl);
+        const files = unique(urls.map(url => new URL(url, this.options.baseUrl)).filter(url => url.host === host).map(String));
+        const endpoint = `${this.options.endpoint ?? "https://api.cloudflare.com/client/v4"}/zones/${this.options.zoneId}/purge_cache`;
+        // Cloudflare takes at most 30 files per request
+        for (let i = 0; i < files.length; i += 30) {
+            const res = await post(this.name, endpoint, { files: files.slice(i, i + 30) }, { Authorization: `Bearer ${this.options.token}` });
+            const body = await res.json() as { success?: boolean; errors?: { message: string }[] };
+            if (body.success === false) {
+                throw new CDNError(`Cloudflare purge failed: ${body.errors?.map(e => e.message).join("; ") || "unknown error"}`, { status: res.status });
+            }
+        }
+        return files;
+    }
+}
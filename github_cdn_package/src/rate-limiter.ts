@@ -0,0 +1,146 @@
+import { CDNRateLimitBucket, CDNRateLimiter, CDNRateLimitStatus } from "./types.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token bucket for GitHub REST calls. It starts as a local estimate and follows
+ * `X-RateLimit-*` response headers once GitHub has reported them.
+ * Above `threshold` calls pass immediately; below it they are spaced evenly until the quota
+ * resets, and with nothing left they queue until it does.
+ */
+export class EthicalRateLimiter implements CDNRateLimiter {
+    private bucket: CDNRateLimitBucket;
+    /** Earliest start of the next throttled call */
+    private nextSlot = 0;
+
+    constructor(capacity = 4000, refillRatePerHour = 4000, private readonly threshold = 500) {
+        this.bucket = {
+            capacity,
+            tokens: capacity,
+            refillRate: refillRatePerHour / 3600,
+            lastRefill: Date.now(),
+            resetAt: null,
+        };
+    }
+
+    /**
+     * Takes tokens if available, without waiting.
+     * @returns Promise<boolean> - False if the bucket is empty.
+     */
+    async acquire(cost = 1): Promise<boolean> {
+        this.refill();
+
+        if (this.bucket.tokens >= cost) {
+            this.bucket.tokens -= cost;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Milliseconds until `cost` tokens are available (0 if they are now).
+     */
+    retryAfter(cost = 1): number {
+        this.refill();
+        const missing = cost - this.bucket.tokens;
+        return missing > 0 ? this.untilRefilled(missing) : 0;
+    }
+
+    /**
+     * Bucket state, for keeping a limiter in an external store between requests.
+     */
+    snapshot(): CDNRateLimitBucket {
+        this.refill();
+        return { ...this.bucket };
+    }
+
+    /**
+     * Rebuilds a limiter from a `snapshot()`.
+     */
+    static restore(bucket: CDNRateLimitBucket, threshold = 0): EthicalRateLimiter {
+        const limiter = new EthicalRateLimiter(bucket.capacity, bucket.refillRate * 3600, threshold);
+        limiter.bucket = { ...bucket };
+        return limiter;
+    }
+
+    async take(cost = 1): Promise<void> {
+        for (; ;) {
+            this.refill();
+            const { tokens } = this.bucket;
+            if (tokens - cost >= this.threshold) {
+                this.bucket.tokens -= cost;
+                return;
+            }
+
+            const now = Date.now();
+            if (tokens < cost) {
+                // Nothing left: wait for the quota to come back, then compete again
+                await sleep(Math.max(this.untilRefilled(cost - tokens), 50));
+                continue;
+            }
+
+            // Below the threshold: spread the remaining tokens over the time left until the reset
+            const spacing = this.untilRefilled(this.bucket.capacity - tokens) / Math.max(1, tokens / cost);
+            const start = Math.max(now, this.nextSlot);
+            this.nextSlot = start + spacing;
+            this.bucket.tokens -= cost;
+            await sleep(start - now);
+            return;
+        }
+    }
+
+    update(headers: Headers): void {
+        const remaining = headers.get("x-ratelimit-remaining");
+        if (remaining === null) return;
+        const limit = Number(headers.get("x-ratelimit-limit"));
+        const reset = Number(headers.get("x-ratelimit-reset"));
+
+        if (limit > 0) {
+            this.bucket.capacity = limit;
+            this.bucket.refillRate = limit / 3600;
+        }
+        this.bucket.tokens = Number(remaining);
+        this.bucket.resetAt = reset > 0 ? reset * 1000 : null;
+        this.bucket.lastRefill = Date.now();
+    }
+
+    /**
+     * Milliseconds until `count` tokens are back: the reported reset, else the estimated refill.
+     */
+    private untilRefilled(count: number): number {
+        if (this.bucket.resetAt) return Math.max(0, this.bucket.resetAt - Date.now());
+        return (count / this.bucket.refillRate) * 1000;
+    }
+
+    private refill() {
+        const now = Date.now();
+
+        // GitHub restores the whole quota at once when its window resets
+        if (this.bucket.resetAt) {
+            if (now >= this.bucket.resetAt) {
+                this.bucket.tokens = this.bucket.capacity;
+                this.bucket.resetAt = null;
+            }
+            this.bucket.lastRefill = now;
+            return;
+        }
+
+        const elapsedSeconds = (now - this.bucket.lastRefill) / 1000;
+        const tokensToAdd = elapsedSeconds * this.bucket.refillRate;
+
+        this.bucket.tokens = Math.min(this.bucket.capacity, this.bucket.tokens + tokensToAdd);
+        this.bucket.lastRefill = now;
+    }
+
+    getStatus(): CDNRateLimitStatus {
+        this.refill();
+        return {
+            tokens: Math.floor(this.bucket.tokens),
+            capacity: this.bucket.capacity,
+            percentage: (this.bucket.tokens / this.bucket.capacity) * 100,
+            threshold: this.threshold,
+            throttled: this.bucket.tokens < this.threshold,
+            resetAt: this.bucket.resetAt ? new Date(this.bucket.resetAt).toISOString() : null,
+        };
+    }
+}
@@ -0,0 +1,149 @@
+import { CDNAsset, CDNRegistry, CDNRegistryIndex, CDNStorageBackend, CDNTreeItem } from "./types.js";
+
+export const REGISTRY_INDEX = "registry/index.json";
+/** Single-file registry written by earlier versions, migrated into pages on the next commit */
+export const LEGACY_REGISTRY = "registry.json";
+
+export const pagePath = (key: string) => `registry/${key}.json`;
+
+/**
+ * Page an asset belongs to: its upload month, `YYYY-MM`.
+ */
+export const pageKey = (asset: Pick<CDNAsset, "uploadedAt">) => /^\d{4}-\d{2}/.test(asset.uploadedAt) ? asset.uploadedAt.substring(0, 7) : "undated";
+
+/**
+ * Registry order: newest first, ties broken by id.
+ */
+export const compareAssets = (a: Pick<CDNAsset, "uploadedAt" | "id">, b: Pick<CDNAsset, "uploadedAt" | "id">) =>
+    a.uploadedAt === b.uploadedAt ? (a.id < b.id ? 1 : a.id > b.id ? -1 : 0) : a.uploadedAt < b.uploadedAt ? 1 : -1;
+
+const decode = <T>(content: Uint8Array): T => JSON.parse(new TextDecoder().decode(content));
+
+/**
+ * Paged registry as of one commit. Reads pages lazily and tracks which ones changed,
+ * so an upload rewrites one month page and the small root index instead of every entry.
+ */
+export class RegistryView implements CDNRegistry {
+    private pages = new Map<string, CDNAsset[]>();
+    private dirty = new Set<string>();
+    /** True when the entries came from the legacy `registry.json` */
+    public migrated = false;
+    /** False when the commit has no registry at all, as before the first upload */
+    public exists = true;
+
+    private constructor(
+        private readonly backend: CDNStorageBackend,
+        private readonly ref: string,
+        private readonly index: CDNRegistryIndex
+    ) { }
+
+    /**
+     * Opens the registry at a commit. A missing registry is an empty one.
+     */
+    static async load(backend: CDNStorageBackend, ref: string): Promise<RegistryView> {
+        const content = await backend.readFile(ref, REGISTRY_INDEX);
+        if (content) return new RegistryView(backend, ref, decode<CDNRegistryIndex>(content));
+
+        const view = new RegistryView(backend, ref, { version: 2, pages: [] });
+        const legacy = await backend.readFile(ref, LEGACY_REGISTRY);
+        if (legacy) {
+            await view.replace(decode<CDNAsset[]>(legacy));
+            view.migrated = true;
+        } else {
+            view.exists = false;
+        }
+        return view;
+    }
+
+    /** Page keys, newest first. */
+    keys(): string[] {
+        const keys = new Set([...this.index.pages.map(p => p.key), ...this.pages.keys()]);
+        return [...keys].sort().reverse();
+    }
+
+    /** Root index entries as last written. */
+    get summary(): CDNRegistryIndex {
+        return this.index;
+    }
+
+    /** Assets of one page, newest first. */
+    async page(key: string): Promise<CDNAsset[]> {
+        let assets = this.pages.get(key);
+        if (!assets) {
+            const known = this.index.pages.some(p => p.key === key);
+            const content = known ? await this.backend.readFile(this.ref, pagePath(key)) : null;
+            assets = content ? decode<CDNAsset[]>(content) : [];
+            this.pages.set(key, assets);
+        }
+        return assets;
+    }
+
+    async find(match: (asset: CDNAsset) => boolean): Promise<CDNAsset | null> {
+        for (const key of this.keys()) {
+            const found = (await this.page(key)).find(match);
+            if (found) return found;
+        }
+        return null;
+    }
+
+    async put(asset: CDNAsset): Promise<void> {
+        const key = pageKey(asset);
+        const assets = (await this.page(key)).filter(a => a.id !== asset.id);
+        assets.push(asset);
+        this.pages.set(key, assets.sort(compareAssets));
+        this.dirty.add(key);
+    }
+
+    async remove(id: string): Promise<boolean> {
+        for (const key of this.keys()) {
+            const assets = await this.page(key);
+            const at = assets.findIndex(a => a.id === id);
+            if (at === -1) continue;
+            assets.splice(at, 1);
+            this.dirty.add(key);
+            return true;
+        }
+        return false;
+    }
+
+    async all(): Promise<CDNAsset[]> {
+        const assets: CDNAsset[] = [];
+        for (const key of this.keys()) assets.push(...await this.page(key));
+        return assets;
+    }
+
+    async replace(assets: CDNAsset[]): Promise<void> {
+        for (const key of this.keys()) {
+            this.pages.set(key, []);
+            this.dirty.add(key);
+        }
+        for (const asset of assets) await this.put(asset);
+    }
+
+    /**
+     * Writes changed pages and the root index as blobs.
+     * Emptied pages are written as `[]` and dropped from the index.
+     * @returns The tree entries to commit and the new root index.
+     */
+    async save(): Promise<{ items: CDNTreeItem[]; index: CDNRegistryIndex }> {
+        const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value, null, 2));
+        const items: CDNTreeItem[] = [];
+        const pages = this.index.pages.filter(p => !this.dirty.has(p.key));
+
+        for (const key of this.dirty) {
+            const assets = this.pages.get(key)!;
+            const sha = await this.backend.createBlob(encode(assets));
+            items.push({ path: pagePath(key), mode: "100644", type: "blob", sha });
+            if (!assets.length) continue;
+
+            const shardBytes: Record<string, number> = {};
+            for (const a of assets) shardBytes[a.shard ?? ""] = (shardBytes[a.shard ?? ""] ?? 0) + a.size;
+            pages.push({ key, count: assets.length, shardBytes });
+        }
+
+        const index: CDNRegistryIndex = { version: 2, pages: pages.sort((a, b) => (a.key < b.key ? 1 : -1)) };
+        const sha = await this.backend.createBlob(encode(index));
+        items.push({ path: REGISTRY_INDEX, mode: "100644", type: "blob", sha });
+        return { items, index };
+    }
+}
@@ -0,0 +1,42 @@
+import { CDNRetryPolicy } from "./types.js";
+import { CDNError, ConflictError, RateLimitedError } from "./errors.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delay in ms before retrying a call that failed with `error` on its `attempt`-th try,
+ * or null when retrying cannot help.
+ * Rate limits are waited out until their reset; other transient failures back off exponentially
+ * with full jitter. Ref conflicts are left to the commit loop, which rebuilds on the new head.
+ */
+export function retryDelay(error: unknown, attempt: number, policy: CDNRetryPolicy = {}): number | null {
+    if (!(error instanceof CDNError) || !error.retryable || error instanceof ConflictError) return null;
+    const maxDelay = policy.maxDelay ?? 60_000;
+
+    if (error instanceof RateLimitedError) {
+        if (!error.resetAt) return null;
+        const wait = Math.max(0, error.resetAt.getTime() - Date.now());
+        // A primary quota resets up to an hour later: better to fail than to hang the caller
+        return wait <= maxDelay ? wait + Math.random() * 1000 : null;
+    }
+    const backoff = Math.min(maxDelay, (policy.baseDelay ?? 500) * 2 ** (attempt - 1));
+    return Math.random() * backoff;
+}
+
+/**
+ * Runs `call` until it succeeds, fails permanently or runs out of `policy.attempts`.
+ * @returns Promise<T> - The result of the first successful attempt.
+ */
+export async function withRetry<T>(call: (attempt: number) => Promise<T>, policy: CDNRetryPolicy = {}): Promise<T> {
+    const attempts = Math.max(1, policy.attempts ?? 4);
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call(attempt);
+        } catch (e) {
+            const delay = attempt < attempts ? retryDelay(e, attempt, policy) : null;
+            if (delay === null) throw e;
+            policy.onRetry?.(e as CDNError, attempt, delay);
+            await sleep(delay);
+        }
+    }
+}
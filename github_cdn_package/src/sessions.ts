@@ -0,0 +1,100 @@
+import { CDNSessionStore, CDNStorageBackend, CDNTreeItem, CDNUploadSession } from "./types.js";
+import { ConflictError, NotFoundError, isRefConflict } from "./errors.js";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isExpired = (session: CDNUploadSession) => Date.parse(session.expiresAt) <= Date.now();
+
+/**
+ * Volatile session store. Sessions live as long as the process, so this only suits
+ * long-running servers, scripts and tests.
+ */
+export class MemorySessionStore implements CDNSessionStore {
+    private sessions = new Map<string, CDNUploadSession>();
+
+    async get(id: string): Promise<CDNUploadSession | null> {
+        const session = this.sessions.get(id);
+        if (session && isExpired(session)) this.sessions.delete(id);
+        return this.sessions.get(id) ?? null;
+    }
+
+    async update(id: string, mutate: (session: CDNUploadSession | null) => CDNUploadSession | null): Promise<CDNUploadSession | null> {
+        const next = mutate(await this.get(id));
+        if (next) this.sessions.set(id, next);
+        else this.sessions.delete(id);
+        return next;
+    }
+}
+
+/**
+ * Durable session store kept on a dedicated branch of the storage backend (default `cdn-sessions`),
+ * one `<id>.json` file per session. Needs no infrastructure besides the repository itself.
+ * Concurrent updates are serialized through fast-forward ref updates and replayed on conflict.
+ */
+export class BranchSessionStore implements CDNSessionStore {
+    constructor(
+        private readonly backend: CDNStorageBackend,
+        private readonly branch = "cdn-sessions",
+        private readonly attempts = 8
+    ) { }
+
+    private async head(): Promise<string | null> {
+        try {
+            return await this.backend.getRef(this.branch);
+        } catch (e) {
+            if (e instanceof NotFoundError) return null;
+            throw e;
+        }
+    }
+
+    private async read(ref: string, id: string): Promise<CDNUploadSession | null> {
+        const content = await this.backend.readFile(ref, `${id}.json`);
+        return content ? JSON.parse(new TextDecoder().decode(content)) : null;
+    }
+
+    async get(id: string): Promise<CDNUploadSession | null> {
+        const head = await this.head();
+        const session = head ? await this.read(head, id) : null;
+        return session && !isExpired(session) ? session : null;
+    }
+
+    async update(id: string, mutate: (session: CDNUploadSession | null) => CDNUploadSession | null): Promise<CDNUploadSession | null> {
+        const path = `${id}.json`;
+
+        for (let attempt = 1; ; attempt++) {
+            const head = await this.head();
+            const stored = head ? await this.read(head, id) : null;
+            const current = stored && !isExpired(stored) ? stored : null;
+            const next = mutate(current);
+            if (!next && !stored) return null;
+
+            let treeSha: string;
+            if (next) {
+                const sha = await this.backend.createBlob(new TextEncoder().encode(JSON.stringify(next, null, 2)));
+                const items: CDNTreeItem[] = [{ path, mode: "100644", type: "blob", sha }];
+                if (!head) {
+                    // Orphan branch: a README keeps the tree non-empty once every session is gone
+                    const readme = await this.backend.createBlob(new TextEncoder().encode("# Resumable upload sessions\n"));
+                    items.push({ path: "README.md", mode: "100644", type: "blob", sha: readme });
+                }
+                treeSha = await this.backend.createTree(head, items);
+            } else {
+                const kept = (await this.backend.getTree(head!)).filter(i => i.path !== path);
+                treeSha = await this.backend.createTree(null, kept);
+            }
+
+            const message = next ? `Session: ${id}` : `Session closed: ${id}`;
+            const commitSha = await this.backend.createCommit(message, treeSha, head ? [head] : []);
+
+            try {
+                if (head) await this.backend.updateRef(this.branch, commitSha);
+                else await this.backend.createRef(this.branch, commitSha);
+                return next;
+            } catch (e) {
+                const raced = isRefConflict(e) || (!head && e instanceof ConflictError);
+                if (!raced || attempt >= this.attempts) throw e;
+                await sleep(Math.min(100 * 2 ** (attempt - 1), 2000) + Math.floor(Math.random() * 100));
+            }
+        }
+    }
+}
@@ -0,0 +1,40 @@
+import { Sha256 } from "./sha256.js";
+
+const encoder = new TextEncoder();
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g)!, b => parseInt(b, 16));
+
+const base64url = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+/**
+ * HMAC-SHA256 (RFC 2104) on top of the incremental hasher.
+ * Unlike WebCrypto it is synchronous, so links can be signed wherever they are built.
+ */
+export function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+    const block = new Uint8Array(64);
+    block.set(key.byteLength > 64 ? fromHex(new Sha256().update(key).digest()) : key);
+    const pad = (byte: number) => block.map(b => b ^ byte);
+    const inner = fromHex(new Sha256().update(pad(0x36)).update(message).digest());
+    return fromHex(new Sha256().update(pad(0x5c)).update(inner).digest());
+}
+
+/**
+ * Signature of a link's query parameters, `sig` excluded, in a fixed order.
+ */
+export function signParams(secret: string, params: URLSearchParams): string {
+    const canonical = [...params].filter(([key]) => key !== "sig").sort(([a, av], [b, bv]) =>
+        a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1
+    );
+    return base64url(hmacSha256(encoder.encode(secret), encoder.encode(new URLSearchParams(canonical).toString())));
+}
+
+/**
+ * Compares two signatures in time independent of where they differ.
+ */
+export function safeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+}
@@ -12,12 +12,141 @@ export interface CDNConfig {
     branch?: string;
     /** User Agent string for GitHub API requests */
     userAgent?: string;
+    /** Maximum attempts for a commit whose branch update conflicts (default: 5) */
+    commitAttempts?: number;
+    /** Storage backend (default: GitHub REST API using token/owner/repo) */
+    backend?: CDNStorageBackend;
+    /** Client-side chunk encryption; when set, new uploads are AES-GCM encrypted */
+    encryption?: CDNEncryptionConfig;
+    /** Codec for chunks of compressible MIME types (text, JSON, SVG, WASM); off when unset */
+    compression?: CDNCompressionCodec;
+    /** Where resumable upload sessions are kept (default: a `cdn-sessions` branch in the storage repo) */
+    sessions?: CDNSessionStore;
+    /** Lifetime of an upload session in seconds (default: 86400) */
+    sessionTTL?: number;
+    /**
+     * Repositories new uploads are spread over (default: only `owner/repo`).
+     * `owner/repo` always keeps the global registry and upload sessions, and only stores asset data when listed here.
+     */
+    shards?: CDNShardConfig[];
+    /** How a shard is picked for a new upload (default: 'round-robin') */
+    shardPolicy?: CDNShardPolicy;
+    /** Make `delete()` move assets to the trash instead of purging them (default: false) */
+    softDelete?: boolean;
+    /** Seconds an asset stays in the trash before `purgeTrash()` removes it (default: 30 days) */
+    trashRetention?: number;
+    /** HMAC signing of origin proxy links; when set, the proxy only serves signed, unexpired links */
+    signing?: CDNSigningConfig;
+    /** Budget for GitHub REST calls, shared by every backend using `token` (default: a new `EthicalRateLimiter`) */
+    rateLimiter?: CDNRateLimiter;
+    /** Retries of failed GitHub calls and downloads (default: 4 attempts) */
+    retry?: CDNRetryPolicy;
+    /** Cache for downloaded manifests and chunks, e.g. `EdgeCache`; repeat reads then skip GitHub */
+    cache?: CDNCache;
+    /** Seconds a cached manifest is trusted, since metadata edits rewrite it (default: 300); chunks never change */
+    cacheTTL?: number;
+    /** Public caches to purge after every write, e.g. `JsDelivrPurger` (default: none) */
+    purgers?: CDNPurger[];
+}
+
+/**
+ * A repository in the shard pool.
+ */
+export interface CDNShardConfig {
+    owner: string;
+    repo: string;
+    /** Storage branch (default: the main config's branch) */
+    branch?: string;
+    /** Token for this repository (default: the main config's token) */
+    token?: string;
+    /** Storage backend for this shard (default: GitHub REST API) */
+    backend?: CDNStorageBackend;
+}
+
+/**
+ * Shard placement for new uploads:
+ * `round-robin` cycles through the pool, `least-full` picks the shard holding the fewest bytes
+ * according to the registry, `hash` derives the shard from the asset id.
+ */
+export type CDNShardPolicy = "round-robin" | "least-full" | "hash";
+
+/**
+ * Chunk compression codecs supported by `CompressionStream`.
+ */
+export type CDNCompressionCodec = "gzip" | "deflate";
+
+/**
+ * Keys for client-side AES-GCM encryption.
+ * Rotate by adding a new key and switching `activeKeyId`; keep retired keys to read older assets.
+ */
+export interface CDNEncryptionConfig {
+    /** Key id used for new uploads */
+    activeKeyId: string;
+    /** Keys by id: base64-encoded raw 256-bit keys or AES-GCM CryptoKeys */
+    keys: Record<string, string | CryptoKey>;
+}
+
+/**
+ * Secret for signed origin links. Changing it invalidates every link already handed out.
+ */
+export interface CDNSigningConfig {
+    /** HMAC-SHA256 key, kept server-side only */
+    secret: string;
+    /** Default lifetime of a signed link in seconds (default: 3600) */
+    ttl?: number;
+}
+
+/**
+ * Restrictions baked into a signed origin link.
+ */
+export interface CDNSignOptions {
+    /** Seconds until the link expires (default: `signing.ttl`) */
+    expiresIn?: number;
+    /** Only serve the link to this client IP address */
+    ip?: string;
+    /** Content-Disposition the proxy must answer with (default: 'inline') */
+    disposition?: "inline" | "attachment";
+}
+
+/**
+ * Outcome of checking a signed origin link.
+ */
+export interface CDNSignatureCheck {
+    valid: boolean;
+    /** Why the link is refused */
+    reason?: string;
+    /** When the link expires (absent for unsigned links) */
+    expiresAt?: Date;
+}
+
+/**
+ * User-defined attributes of an asset, kept in its manifest and in the registry.
+ */
+export interface CDNAssetAttributes {
+    /** Arbitrary key/value pairs (e.g. `{ productId: "42" }`) */
+    metadata?: Record<string, string>;
+    /** Free-form labels */
+    tags?: string[];
+    /** Virtual folder such as `products/shoes`; independent of the repository path */
+    folder?: string;
+}
+
+/**
+ * Change to an asset's attributes for `updateMetadata()`.
+ */
+export interface CDNMetadataPatch {
+    /** Keys to set; a null value removes the key */
+    metadata?: Record<string, string | null>;
+    /** Replaces the tag list */
+    tags?: string[];
+    /** Moves the asset to another virtual folder; null removes it from any folder */
+    folder?: string | null;
 }
 
 /**
  * Metadata for a file asset stored in the CDN.
  */
-export interface CDNAsset {
+export interface CDNAsset extends CDNAssetAttributes {
     /** Robust unique ID (typically timestamp_randomHex) */
     id: string;
     /** Original safe filename */
@@ -30,10 +159,77 @@ export interface CDNAsset {
     path: string;
     /** ISO timestamp of upload */
     uploadedAt: string;
+    /** Hex SHA-256 of the whole file (absent on legacy uploads) */
+    digest?: string;
+    /** Shard holding the asset data as `owner/repo` (absent: the main repository) */
+    shard?: string;
+    /** Commit on the shard that holds the asset data; links are pinned to it (absent on legacy entries until `sync()`) */
+    commit?: string;
+    /** Current version number (absent: 1) */
+    version?: number;
+    /** Every stored version, oldest first (absent: only the original upload) */
+    versions?: CDNAssetVersion[];
+    /** ISO timestamp of a soft delete; trashed assets are hidden from `list()` and not served */
+    trashedAt?: string;
     /** Links to the asset across different providers */
     links: CDNLinks;
 }
 
+/**
+ * One stored version of an asset. Top-level `CDNAsset` fields mirror the current version;
+ * `id` and `uploadedAt` stay those of the first version.
+ */
+export interface CDNAssetVersion {
+    /** 1-based version number */
+    version: number;
+    name: string;
+    /** Folder holding this version's chunks and manifest */
+    path: string;
+    size: number;
+    type: string;
+    digest?: string;
+    shard?: string;
+    /** Commit holding this version's data */
+    commit?: string;
+    /** ISO timestamp of this version's upload */
+    uploadedAt: string;
+}
+
+/**
+ * Anything `upload()` can read from. Streams may be of unknown length.
+ */
+export type CDNUploadInput =
+    | File
+    | Blob
+    | Buffer
+    | { name: string; type: string; buffer: ArrayBuffer }
+    | ReadableStream<Uint8Array>
+    | AsyncIterable<Uint8Array>; // e.g. Node.js Readable
+
+/**
+ * Options for `upload()`.
+ */
+export interface CDNUploadOptions extends CDNAssetAttributes {
+    /** Id of an existing asset; the upload becomes its next version */
+    replaces?: string;
+    /** File name (streams and Buffers have none) */
+    name?: string;
+    /** MIME type (default: the Blob's type, else 'application/octet-stream') */
+    type?: string;
+    /** Expected byte count, only used to report progress for streams */
+    size?: number;
+    /** Callback for progress and logs */
+    onUpdate?: (log: CDNLog) => void;
+}
+
+/**
+ * One file of `uploadMany()`, with its own name, type and attributes.
+ */
+export interface CDNBatchUploadItem extends Omit<CDNUploadOptions, "onUpdate"> {
+    /** File, Blob, Buffer or stream to upload */
+    input: CDNUploadInput;
+}
+
 /**
  * High-resolution progress data for long operations.
  */
@@ -42,11 +238,11 @@ export interface CDNProgress {
     percentage: number;
     /** Current chunk being processed */
     currentChunk: number;
-    /** Total number of chunks */
+    /** Total number of chunks (an estimate until a stream of unknown length ends) */
     totalChunks: number;
     /** Byte count transferred so far */
     loaded: number;
-    /** Total byte count */
+    /** Total byte count (0 while a stream of unknown length is still being read) */
     total: number;
     /** Current operation description */
     stage: string;
@@ -64,12 +260,14 @@ export interface CDNLinks {
     raw: string;
     /** Direct Vercel / Origin proxy link */
     origin: string;
+    /** Origin proxy link by asset id, following the current version */
+    stable?: string;
 }
 
 /**
  * Internal manifest structure for reconstruction.
  */
-export interface CDNManifest {
+export interface CDNManifest extends CDNAssetAttributes {
     id: string;
     fileName: string;
     uniqueId: string;
@@ -80,6 +278,98 @@ export interface CDNManifest {
     pathPrefix: string;
     uploadedAt: string;
     optimized: boolean;
+    /** Hex SHA-256 of the whole file, suitable for `Digest`/`ETag` headers */
+    digest?: string;
+    /** Hex SHA-256 of every stored chunk blob, in order; checked on fetch */
+    chunkDigests?: string[];
+    /** Present when chunks are stored encrypted. Never contains key material. */
+    encryption?: CDNEncryptionInfo;
+    /** Present when chunks are stored compressed */
+    compression?: CDNCompressionInfo;
+    /** Logical asset id when this manifest stores a later version (`id` is then the storage id) */
+    assetId?: string;
+}
+
+/**
+ * Compression parameters recorded in a manifest.
+ */
+export interface CDNCompressionInfo {
+    codec: CDNCompressionCodec;
+    /** Uncompressed byte count (equals `totalSize`) */
+    originalSize: number;
+    /** Compressed byte count, before any encryption */
+    storedSize: number;
+    /** Compressed byte count of every chunk, in order */
+    chunkSizes: number[];
+}
+
+/**
+ * A chunk ready to be stored, with the values its manifest must record.
+ */
+export interface CDNPreparedChunk {
+    /** Bytes to store as the chunk blob */
+    data: Uint8Array;
+    /** Hex SHA-256 of `data` */
+    digest: string;
+    /** Byte count after compression, before encryption */
+    encodedSize: number;
+    /** Codec applied, if the chunk was compressed */
+    codec?: CDNCompressionCodec;
+    /** Base64 IV, if the chunk was encrypted */
+    iv?: string;
+    /** Key id, if the chunk was encrypted */
+    keyId?: string;
+}
+
+/**
+ * Encryption parameters recorded in a manifest.
+ */
+export interface CDNEncryptionInfo {
+    algorithm: "AES-GCM";
+    /** Id of the key the chunks were sealed with */
+    keyId: string;
+    /** Base64 96-bit IV of every chunk, in order */
+    ivs: string[];
+}
+
+/**
+ * Inclusive byte range within an asset (mirrors HTTP `Range: bytes=start-end`).
+ */
+export interface CDNRange {
+    /** Offset of the first byte */
+    start: number;
+    /** Offset of the last byte (inclusive) */
+    end: number;
+}
+
+/**
+ * Options for retrieving an asset.
+ */
+export interface CDNFetchOptions {
+    /** Only stream this byte range; chunks outside of it are never downloaded */
+    range?: CDNRange | null;
+    /** Previously retrieved manifest, skips the manifest round-trip */
+    manifest?: CDNManifest;
+    /** Decompress compressed assets (default: true). When false, the stored encoding is passed through. */
+    decompress?: boolean;
+    /** Shard holding the asset (`owner/repo`); looked up in the registry when omitted */
+    shard?: string;
+    /** Serve this version of the asset the path belongs to (the path may also be the asset id) */
+    version?: number;
+    /** Read from this commit instead of the branch head (default: the commit the registry records for the path); pinned URLs are cached longer by public CDNs */
+    commit?: string;
+}
+
+/**
+ * A retrieved asset.
+ */
+export interface CDNFetchResult {
+    stream: ReadableStream;
+    manifest: CDNManifest;
+    /** Byte range being served, or null for the whole asset */
+    range: CDNRange | null;
+    /** Content encoding of the stream when passed through undecoded, else null */
+    encoding: CDNCompressionCodec | null;
 }
 
 /**
@@ -91,5 +381,364 @@ export interface CDNLog {
     logType?: "info" | "success" | "error" | "warning" | "process";
     progress?: CDNProgress;
     asset?: CDNAsset;
+    /** Assets a batch operation committed (`done` of `uploadMany`/`deleteMany`) */
+    assets?: CDNAsset[];
+    /** Position of the file or asset a log is about, in batch operations */
+    item?: number;
     [key: string]: any;
 }
+
+/**
+ * Entry of a Git tree, as accepted by the GitHub Trees API.
+ */
+export interface CDNTreeItem {
+    path: string;
+    mode: string;
+    type: string;
+    sha: string;
+}
+
+/**
+ * A single write to the storage branch, replayable on top of a newer head.
+ */
+export interface CDNTransaction {
+    /** Commit message */
+    message: string;
+    /**
+     * Blob entries written by this operation (chunks, manifests). A function is called again on every attempt
+     * with the head it builds on, for entries derived from files already on the branch.
+     */
+    tree?: CDNTreeItem[] | ((headSha: string) => Promise<CDNTreeItem[]>);
+    /** Path prefix(es) dropped from the tree (physical purge) */
+    remove?: string | string[];
+    /** Shard the tree entries and removals apply to (default: the main repository) */
+    shard?: string;
+    /**
+     * Commit `tree` on its own before the registry change, so the registry can pin links to it.
+     * Both commits land with a single ref update. Data on another shard always has its own commit.
+     */
+    pin?: boolean;
+    /**
+     * This operation's registry change, re-applied to the latest registry on every attempt.
+     * `dataCommit` is the commit holding `tree` when it has one of its own (see `pin`), else null.
+     */
+    registry?: (registry: CDNRegistry, headSha: string, dataCommit: string | null) => void | Promise<void>;
+}
+
+/**
+ * Outcome of a transactional commit.
+ */
+export interface CDNCommitResult {
+    /** SHA of the commit the branch now points to (on the data shard when the registry lives elsewhere) */
+    sha: string;
+    /** Registry root index written by the commit, or null if untouched */
+    registry: CDNRegistryIndex | null;
+}
+
+/**
+ * Editable view of the registry inside a commit. Pages load on demand and only changed pages are written.
+ */
+export interface CDNRegistry {
+    /** First asset matching `match`, searching newest pages first */
+    find(match: (asset: CDNAsset) => boolean): Promise<CDNAsset | null>;
+    /** Adds an asset to its month page, replacing an entry with the same id there */
+    put(asset: CDNAsset): Promise<void>;
+    /** Drops an asset by id; resolves to false if it was not registered */
+    remove(id: string): Promise<boolean>;
+    /** Every asset, newest first (loads all pages) */
+    all(): Promise<CDNAsset[]>;
+    /** Replaces the whole registry */
+    replace(assets: CDNAsset[]): Promise<void>;
+}
+
+/**
+ * Root of the registry (`registry/index.json`). Assets live in month pages (`registry/<YYYY-MM>.json`).
+ */
+export interface CDNRegistryIndex {
+    version: 2;
+    /** Non-empty pages, newest first */
+    pages: CDNRegistryPage[];
+}
+
+export interface CDNRegistryPage {
+    /** Upload month, `YYYY-MM` */
+    key: string;
+    /** Assets on the page */
+    count: number;
+    /** Stored bytes per shard (`""` for the main repository) */
+    shardBytes: Record<string, number>;
+}
+
+/**
+ * Options for `list()`.
+ */
+export interface CDNListOptions {
+    /** Cursor returned by the previous call */
+    cursor?: string | null;
+    /** Maximum assets returned (default: 100) */
+    limit?: number;
+    /** Only assets whose repository path starts with this prefix */
+    prefix?: string;
+    /** Only assets in this virtual folder or its subfolders */
+    folder?: string;
+    /** Only assets carrying this tag */
+    tag?: string;
+}
+
+/**
+ * One page of `list()` results.
+ */
+export interface CDNListResult {
+    /** Assets, newest first */
+    assets: CDNAsset[];
+    /** Pass to `list()` for the next page; null on the last page */
+    cursor: string | null;
+    /** True when the branch has no registry yet (nothing uploaded), as opposed to an empty one */
+    registryMissing?: boolean;
+}
+
+/**
+ * Git object storage used by the SDK. Implementations must follow GitHub's Git Data API
+ * semantics: content-addressed SHAs, `base_tree` merging (a commit SHA is accepted as base)
+ * and rejecting ref updates that are not fast-forwards with a 422 `ConflictError` (see `apiError`).
+ */
+export interface CDNStorageBackend {
+    /** True if the repository is reachable with the configured credentials */
+    ping(): Promise<boolean>;
+    /** Commit SHA a branch points to */
+    getRef(branch: string): Promise<string>;
+    /** Fast-forwards a branch to a commit */
+    updateRef(branch: string, commitSha: string): Promise<void>;
+    /** Creates a branch; rejects with 422 if it already exists */
+    createRef(branch: string, commitSha: string): Promise<void>;
+    createBlob(content: Uint8Array): Promise<string>;
+    getBlob(sha: string): Promise<Uint8Array>;
+    /** Creates a tree, merged onto `baseSha` when given */
+    createTree(baseSha: string | null, items: CDNTreeItem[]): Promise<string>;
+    /** Lists a tree (or a commit's tree); `recursive` flattens nested folders */
+    getTree(sha: string, recursive?: boolean): Promise<CDNTreeItem[]>;
+    createCommit(message: string, treeSha: string, parents: string[]): Promise<string>;
+    /** Raw file content at a branch or commit, or null if the path does not exist */
+    readFile(ref: string, path: string): Promise<Uint8Array | null>;
+    /** Public, cacheable URLs for a path, tried before `readFile` on retrieval */
+    publicUrls(ref: string, path: string): string[];
+}
+
+/**
+ * Parameters for opening a resumable upload session.
+ */
+export interface CDNSessionInit extends CDNAssetAttributes {
+    /** Id of an existing asset; the upload becomes its next version */
+    replaces?: string;
+    fileName: string;
+    /** MIME type (default: 'application/octet-stream') */
+    mimeType?: string;
+    /** Total file size in bytes */
+    totalSize: number;
+    /** Plaintext bytes per chunk (default: 4MB, below Vercel's request body limit) */
+    chunkSize?: number;
+}
+
+/**
+ * Options for `finalizeSession()`. Attributes given here override those passed to `createSession()`.
+ */
+export interface CDNFinalizeOptions extends CDNAssetAttributes {
+    /** Hex SHA-256 of the whole file as the client computed it; finalizing fails if the stored chunks hash differently */
+    digest?: string;
+    /** Callback for logs */
+    onUpdate?: (log: CDNLog) => void;
+}
+
+/**
+ * A chunk already stored for an upload session.
+ */
+export interface CDNSessionChunk {
+    /** Blob SHA of the stored chunk */
+    sha: string;
+    /** Hex SHA-256 of the stored chunk */
+    digest: string;
+    /** Byte count after compression, before encryption */
+    encodedSize: number;
+    codec?: CDNCompressionCodec;
+    iv?: string;
+    keyId?: string;
+}
+
+/**
+ * Server-side state of a resumable upload. The session id doubles as the asset id.
+ */
+export interface CDNUploadSession extends CDNAssetAttributes {
+    id: string;
+    fileName: string;
+    mimeType: string;
+    /** Folder the asset is committed to */
+    pathPrefix: string;
+    /** Shard the chunks are stored in */
+    shard: string;
+    /** Asset this upload adds a version to */
+    replaces?: string;
+    totalSize: number;
+    chunkSize: number;
+    totalChunks: number;
+    createdAt: string;
+    expiresAt: string;
+    /** Stored chunks by 1-based chunk number */
+    chunks: Record<number, CDNSessionChunk>;
+}
+
+/**
+ * Paces GitHub REST calls against the API quota.
+ */
+export interface CDNRateLimiter {
+    /** Waits until a call costing `cost` tokens may be made, then takes them */
+    take(cost?: number): Promise<void>;
+    /** Adopts the quota GitHub reported in a response's `X-RateLimit-*` headers */
+    update(headers: Headers): void;
+    getStatus(): CDNRateLimitStatus;
+}
+
+/**
+ * Retries of transient storage API failures: 5xx responses, network errors and rate limits,
+ * including GitHub's secondary rate limits.
+ */
+export interface CDNRetryPolicy {
+    /** Tries per call, the first included (default: 4); 1 disables retries */
+    attempts?: number;
+    /** Backoff before the first retry in ms, doubled for each further one and jittered (default: 500) */
+    baseDelay?: number;
+    /** Longest wait in ms; a rate limit resetting later fails at once (default: 60000) */
+    maxDelay?: number;
+    /** Called before each retry with the error, the failed attempt's number and the delay in ms */
+    onRetry?: (error: Error, attempt: number, delay: number) => void;
+}
+
+/**
+ * Serializable state of an `EthicalRateLimiter` bucket.
+ */
+export interface CDNRateLimitBucket {
+    capacity: number;
+    tokens: number;
+    /** Tokens per second */
+    refillRate: number;
+    /** Epoch ms of the last refill */
+    lastRefill: number;
+    /** When GitHub restores the full quota (epoch ms), once reported */
+    resetAt: number | null;
+}
+
+/**
+ * Snapshot of the GitHub API budget.
+ */
+export interface CDNRateLimitStatus {
+    /** Calls left in the current window */
+    tokens: number;
+    /** Calls per window */
+    capacity: number;
+    /** `tokens` as a share of `capacity` (0-100) */
+    percentage: number;
+    /** Below this many tokens calls are spaced out */
+    threshold: number;
+    /** True while calls are being spaced out or queued */
+    throttled: boolean;
+    /** When GitHub resets the quota, if it has reported it */
+    resetAt: string | null;
+}
+
+/**
+ * Byte cache for stored files. Keys are `owner/repo/ref/path`, the ref being a branch or commit.
+ */
+export interface CDNCache {
+    /** Cached bytes, or null when missing or expired */
+    get(key: string): Promise<Uint8Array | null>;
+    /** Stores bytes for `ttl` seconds */
+    put(key: string, bytes: Uint8Array, ttl: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Invalidates a public cache after a write. Receives every URL the write affected and purges those it serves.
+ */
+export interface CDNPurger {
+    /** Name used in logs */
+    readonly name: string;
+    /** @returns The URLs that were purged */
+    purge(urls: string[]): Promise<string[]>;
+}
+
+/**
+ * Persistence for upload sessions. Expired sessions must read as null.
+ */
+export interface CDNSessionStore {
+    get(id: string): Promise<CDNUploadSession | null>;
+    /**
+     * Atomically replaces a session with `mutate(current)`; returning null deletes it.
+     * Implementations may call `mutate` more than once when retrying.
+     */
+    update(id: string, mutate: (session: CDNUploadSession | null) => CDNUploadSession | null): Promise<CDNUploadSession | null>;
+}
+
+/**
+ * Payload of each lifecycle event, by event type.
+ */
+export interface CDNEventMap {
+    /** An upload, batch item or finalized session was committed (also for new versions) */
+    "asset.uploaded": { asset: CDNAsset };
+    /** An asset was trashed (`trashed: true`) or purged with every version */
+    "asset.deleted": { id: string; trashed: boolean; asset?: CDNAsset };
+    /** `sync()` rebuilt the registry */
+    "registry.synced": { recovered: number };
+    /** An upload, batch or session finalization threw; `names` are the files it was given */
+    "upload.failed": { names: string[]; error: string; code?: string; sessionId?: string };
+}
+
+export type CDNEventType = keyof CDNEventMap;
+
+/**
+ * A lifecycle event, as passed to `on()` listeners and POSTed by `WebhookDispatcher`.
+ */
+export interface CDNEvent<T extends CDNEventType = CDNEventType> {
+    /** Unique per event; webhook receivers can use it to drop duplicate deliveries */
+    id: string;
+    type: T;
+    /** ISO timestamp */
+    createdAt: string;
+    data: CDNEventMap[T];
+}
+
+/**
+ * A URL `WebhookDispatcher` delivers events to.
+ */
+export interface CDNWebhookEndpoint {
+    url: string;
+    /** HMAC-SHA256 key for the `X-CDN-Signature` header */
+    secret: string;
+    /** Event types to deliver (default: all) */
+    events?: CDNEventType[];
+}
+
+/**
+ * A webhook delivery that failed on every attempt.
+ */
+export interface CDNDeadLetter {
+    /** `<event id>:<endpoint url>` */
+    id: string;
+    event: CDNEvent;
+    url: string;
+    /** Last error */
+    error: string;
+    /** Status of the last response, or null if the endpoint was unreachable */
+    status: number | null;
+    attempts: number;
+    /** ISO timestamp of the last attempt */
+    failedAt: string;
+}
+
+/**
+ * Persistence for failed webhook deliveries, so they can be inspected and replayed.
+ */
+export interface CDNDeadLetterStore {
+    put(letter: CDNDeadLetter): Promise<void>;
+    /** Oldest first */
+    list(): Promise<CDNDeadLetter[]>;
+    delete(id: string): Promise<void>;
+}
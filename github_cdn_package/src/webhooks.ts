@@ -0,0 +1,189 @@
+import {
+    CDNDeadLetter, CDNDeadLetterStore, CDNEvent, CDNRetryPolicy, CDNWebhookEndpoint
+} from "./types.js";
+import { CDNError, RateLimitedError, UpstreamUnavailableError } from "./errors.js";
+import { hmacSha256, safeEqual } from "./signing.js";
+import { withRetry } from "./retry.js";
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+
+const sign = (secret: string, timestamp: number, body: string) =>
+    toHex(hmacSha256(encoder.encode(secret), encoder.encode(`${timestamp}.${body}`)));
+
+/**
+ * Error for a refused delivery: 5xx and 429 are worth retrying, other statuses are not.
+ */
+async function failure(res: Response): Promise<CDNError> {
+    const message = `Webhook answered ${res.status}: ${(await res.text().catch(() => "")).slice(0, 200)}`;
+    if (res.status === 429) {
+        const retryAfter = Number(res.headers.get("retry-after"));
+        return new RateLimitedError(message, new Date(Date.now() + (retryAfter > 0 ? retryAfter * 1000 : 1000)), { status: 429 });
+    }
+    if (res.status >= 500) return new UpstreamUnavailableError(message, { status: res.status });
+    return new CDNError(message, { status: res.status });
+}
+
+/**
+ * Checks the `X-CDN-Signature` header of a webhook delivery, on the receiving end.
+ * @param body - The raw request body, exactly as received.
+ * @param tolerance - Oldest signature accepted, in seconds; replays of older deliveries are refused.
+ * @example
+ * if (!verifyWebhook(secret, await req.text(), req.headers.get("x-cdn-signature"))) return new Response(null, { status: 401 });
+ */
+export function verifyWebhook(secret: string, body: string, header: string | null, tolerance = 300): boolean {
+    const parts = new Map((header ?? "").split(",").map(part => part.trim().split("=", 2) as [string, string]));
+    const timestamp = Number(parts.get("t"));
+    const signature = parts.get("v1");
+    if (!timestamp || !signature || Math.abs(Date.now() / 1000 - timestamp) > tolerance) return false;
+    return safeEqual(signature, sign(secret, timestamp, body));
+}
+
+/**
+ * `CDNDeadLetterStore` in this process's memory. Letters are lost on restart.
+ */
+export class MemoryDeadLetterStore implements CDNDeadLetterStore {
+    private letters = new Map<string, CDNDeadLetter>();
+
+    async put(letter: CDNDeadLetter): Promise<void> {
+        this.letters.delete(letter.id);
+        this.letters.set(letter.id, letter);
+    }
+
+    async list(): Promise<CDNDeadLetter[]> {
+        return [...this.letters.values()];
+    }
+
+    async delete(id: string): Promise<void> {
+        this.letters.delete(id);
+    }
+}
+
+/**
+ * Options of a `WebhookDispatcher`.
+ */
+export interface WebhookDispatcherOptions {
+    endpoints: CDNWebhookEndpoint[];
+    /** Retries per delivery (default: 5 attempts, starting at 1s) */
+    retry?: CDNRetryPolicy;
+    /** Where deliveries that failed every attempt are kept (default: a `MemoryDeadLetterStore`) */
+    deadLetters?: CDNDeadLetterStore;
+    /** Called when a delivery is given up on, after it was stored */
+    onDeadLetter?: (letter: CDNDeadLetter) => void;
+}
+
+/**
+ * POSTs lifecycle events as JSON to webhook endpoints.
+ * Each request carries `X-CDN-Event`, `X-CDN-Delivery` (the event id) and
+ * `X-CDN-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, see `verifyWebhook`.
+ * Unreachable endpoints, 5xx and 429 answers are retried with backoff; other answers and exhausted
+ * retries end up in the dead-letter store, from where `replay()` sends them again.
+ * @example
+ * const webhooks = new WebhookDispatcher({ endpoints: [{ url, secret }] });
+ * webhooks.attach(cdn);
+ */
+export class WebhookDispatcher {
+    readonly deadLetters: CDNDeadLetterStore;
+    private pending = new Set<Promise<void>>();
+
+    constructor(private readonly options: WebhookDispatcherOptions) {
+        this.deadLetters = options.deadLetters ?? new MemoryDeadLetterStore();
+    }
+
+    /**
+     * Delivers every event `cdn` emits from now on.
+     * @returns A function that stops delivering.
+     */
+    attach(cdn: { on(type: "*", listener: (event: CDNEvent) => void): () => void }): () => void {
+        return cdn.on("*", event => { void this.dispatch(event); });
+    }
+
+    /**
+     * Delivers an event to every endpoint subscribed to its type. Never rejects: failures become dead letters.
+     */
+    dispatch(event: CDNEvent): Promise<void> {
+        const endpoints = this.options.endpoints.filter(e => !e.events || e.events.includes(event.type));
+        const delivery = Promise.all(endpoints.map(endpoint => this.deliver(event, endpoint))).then(() => undefined);
+        this.pending.add(delivery);
+        delivery.finally(() => this.pending.delete(delivery));
+        return delivery;
+    }
+
+    /**
+     * Waits for every delivery in flight, e.g. before a serverless function returns.
+     */
+    async flush(): Promise<void> {
+        while (this.pending.size) await Promise.all(this.pending);
+    }
+
+    /**
+     * Sends the dead letters again, to endpoints that are still configured.
+     * @returns Promise<{ delivered: number; failed: number }> - Letters that went through are removed.
+     */
+    async replay(): Promise<{ delivered: number; failed: number }> {
+        let delivered = 0;
+        let failed = 0;
+        for (const letter of await this.deadLetters.list()) {
+            const endpoint = this.options.endpoints.find(e => e.url === letter.url);
+            if (!endpoint) continue;
+            await this.deadLetters.delete(letter.id);
+            if (await this.deliver(letter.event, endpoint)) delivered++;
+            else failed++;
+        }
+        return { delivered, failed };
+    }
+
+    /**
+     * @returns Promise<boolean> - False when the delivery was given up on and dead-lettered.
+     */
+    private async deliver(event: CDNEvent, endpoint: CDNWebhookEndpoint): Promise<boolean> {
+        const body = JSON.stringify(event);
+        let attempts = 0;
+        let status: number | null = null;
+        try {
+            await withRetry(async attempt => {
+                attempts = attempt;
+                status = null;
+                const res = await this.post(endpoint, event, body);
+                status = res.status;
+                if (!res.ok) throw await failure(res);
+            }, { attempts: 5, baseDelay: 1000, ...this.options.retry });
+            return true;
+        } catch (e) {
+            const letter: CDNDeadLetter = {
+                id: `${event.id}:${endpoint.url}`,
+                event,
+                url: endpoint.url,
+                error: e instanceof Error ? e.message : String(e),
+                status,
+                attempts,
+                failedAt: new Date().toISOString(),
+            };
+            await this.deadLetters.put(letter).catch(() => undefined);
+            this.options.onDeadLetter?.(letter);
+            return false;
+        }
+    }
+
+    /**
+     * Sends one signed attempt. Only an unreachable endpoint throws.
+     */
+    private async post(endpoint: CDNWebhookEndpoint, event: CDNEvent, body: string): Promise<Response> {
+        const timestamp = Math.floor(Date.now() / 1000);
+        try {
+            return await fetch(endpoint.url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "X-CDN-Event": event.type,
+                    "X-CDN-Delivery": event.id,
+                    "X-CDN-Signature": `t=${timestamp},v1=${sign(endpoint.secret, timestamp, body)}`,
+                },
+                body,
+            });
+        } catch (e) {
+            throw new UpstreamUnavailableError(`Webhook unreachable: ${e instanceof Error ? e.message : e}`, { cause: e });
+        }
+    }
+}
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GithubCDN, MemoryBackend, ConflictError } from "../dist/index.js";
+
+/**
+ * Lets another writer move `main` right before each of the first `times` ref updates, so they are not fast forwards.
+ * @returns The number of ref updates attempted so far.
+ */
+const raceRefUpdates = (backend, times) => {
+    const updateRef = backend.updateRef.bind(backend);
+    let calls = 0;
+    backend.updateRef = async (branch, sha) => {
+        if (calls++ < times) {
+            const head = await backend.getRef(branch);
+            await updateRef(branch, await backend.createCommit("Concurrent write", await backend.createTree(head, []), [head]));
+        }
+        return updateRef(branch, sha);
+    };
+    return () => calls;
+};
+
+const entry = (id, uploadedAt = "2024-05-01T00:00:00.000Z") => ({ id, name: `${id}.txt`, size: 1, type: "text/plain", path: `uploads/${id}`, uploadedAt });
+
+test("concurrent uploads all land in the registry", async () => {
+    const cdn = new GithubCDN({ token: "", owner: "o", repo: "r", backend: new MemoryBackend() });
+    const uploaded = await Promise.all(Array.from({ length: 4 }, (_, i) => cdn.upload(new Blob([`file ${i}`]), { name: `${i}.txt` })));
+
+    const { assets } = await cdn.list();
+    assert.deepEqual(assets.map(a => a.id).sort(), uploaded.map(a => a.id).sort());
+});
+
+test("a commit whose branch moved is rebased onto the new head", async () => {
+    const backend = new MemoryBackend();
+    const cdn = new GithubCDN({ token: "", owner: "o", repo: "r", backend });
+    await cdn.commit({ message: "Seed", registry: registry => registry.put(entry("seed")) });
+    const attempts = raceRefUpdates(backend, 1);
+
+    const logs = [];
+    let applied = 0;
+    const { sha } = await cdn.commit({
+        message: "Add",
+        registry: async registry => {
+            applied++;
+            await registry.put(entry("added"));
+        }
+    }, log => logs.push(log));
+
+    assert.equal(attempts(), 2);
+    assert.equal(applied, 2);
+    assert.equal(await backend.getRef("main"), sha);
+    assert.ok(logs.some(l => l.logType === "warning" && l.message.startsWith("Branch moved during commit")));
+    assert.deepEqual((await cdn.list()).assets.map(a => a.id).sort(), ["added", "seed"]);
+});
+
+test("a commit gives up with a ConflictError after commitAttempts", async () => {
+    const backend = new MemoryBackend();
+    const cdn = new GithubCDN({ token: "", owner: "o", repo: "r", backend, commitAttempts: 2 });
+    const attempts = raceRefUpdates(backend, Infinity);
+
+    await assert.rejects(cdn.commit({ message: "Add", registry: registry => registry.put(entry("lost")) }), ConflictError);
+    assert.equal(attempts(), 2);
+    assert.equal(await cdn.getAsset("lost"), null);
+});
@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GithubCDN, MemoryBackend } from "../dist/index.js";
+
+test("concurrent metadata updates land in both the registry and the manifest", async () => {
+    const backend = new MemoryBackend();
+    const cdn = new GithubCDN({ token: "", owner: "o", repo: "r", backend });
+    const asset = await cdn.upload(new Blob(["hello"]), { name: "a.txt" });
+
+    await Promise.all([
+        cdn.updateMetadata(asset.id, { metadata: { alt: "Logo" } }),
+        cdn.updateMetadata(asset.id, { metadata: { credit: "Team" }, tags: ["brand"] })
+    ]);
+
+    const manifest = JSON.parse(new TextDecoder().decode(await backend.readFile("main", `${asset.path}/manifest.json`)));
+    const entry = await cdn.getAsset(asset.id);
+    assert.deepEqual(manifest.metadata, { alt: "Logo", credit: "Team" });
+    assert.deepEqual(entry.metadata, manifest.metadata);
+    assert.deepEqual(manifest.tags, ["brand"]);
+});
@@ -0,0 +1,99 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { GithubCDN, MemoryBackend, JsDelivrPurger, HttpPurger, CloudflarePurger } from "../dist/index.js";
+
+// Stub purge APIs: records every request; `/fail/*` answers 500, `/cf-bad/*` a Cloudflare `success: false`
+const requests = [];
+let server;
+let base;
+
+before(async () => {
+    server = createServer(async (req, res) => {
+        let body = "";
+        for await (const chunk of req) body += chunk;
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        if (req.url.startsWith("/fail")) {
+            res.writeHead(500);
+            return res.end("down");
+        }
+        const success = !req.url.startsWith("/cf-bad");
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success, errors: success ? [] : [{ code: 1012, message: "Request must contain files" }] }));
+    });
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => server.close());
+
+const jsd = path => `https://cdn.jsdelivr.net/gh/o/r@main/${path}`;
+const fastly = path => `https://fastly.jsdelivr.net/gh/o/r@main/${path}`;
+
+test("JsDelivrPurger purges each jsDelivr path once and skips other hosts", async () => {
+    requests.length = 0;
+    const purged = await new JsDelivrPurger(`${base}/jsd`).purge([
+        jsd("a/manifest.json"), fastly("a/manifest.json"), "https://raw.githubusercontent.com/o/r/main/a/manifest.json", "/api/fetch?id=a"
+    ]);
+
+    assert.deepEqual(purged, [jsd("a/manifest.json"), fastly("a/manifest.json")]);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].url, "/jsd");
+    assert.deepEqual(requests[0].body, { path: ["/gh/o/r@main/a/manifest.json"] });
+});
+
+test("JsDelivrPurger sends nothing without jsDelivr URLs", async () => {
+    requests.length = 0;
+    assert.deepEqual(await new JsDelivrPurger(`${base}/jsd`).purge(["/api/fetch?id=a"]), []);
+    assert.equal(requests.length, 0);
+});
+
+test("HttpPurger posts every URL with its headers", async () => {
+    requests.length = 0;
+    const urls = [jsd("a/manifest.json"), "/api/fetch?id=a"];
+    const purged = await new HttpPurger(`${base}/hook`, { Authorization: "Bearer s3cret" }).purge(urls);
+
+    assert.deepEqual(purged, urls);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].headers.authorization, "Bearer s3cret");
+    assert.deepEqual(requests[0].body, { urls });
+});
+
+test("CloudflarePurger resolves relative links, skips other hosts and batches 30 files per request", async () => {
+    requests.length = 0;
+    const links = Array.from({ length: 65 }, (_, i) => `/api/fetch?id=a${i}`);
+    const purger = new CloudflarePurger({ zoneId: "zone", token: "cf-token", baseUrl: "https://cdn.example.com", endpoint: `${base}/cf` });
+    const purged = await purger.purge([...links, jsd("a/manifest.json"), "https://cdn.example.com/api/fetch?id=a0"]);
+
+    assert.equal(purged.length, 65);
+    assert.equal(purged[0], "https://cdn.example.com/api/fetch?id=a0");
+    assert.deepEqual(requests.map(r => r.body.files.length), [30, 30, 5]);
+    assert.ok(requests.every(r => r.url === "/cf/zones/zone/purge_cache"));
+    assert.ok(requests.every(r => r.headers.authorization === "Bearer cf-token"));
+    assert.deepEqual(requests.flatMap(r => r.body.files), purged);
+});
+
+test("CloudflarePurger rejects a success:false answer", async () => {
+    const purger = new CloudflarePurger({ zoneId: "zone", token: "t", baseUrl: "https://cdn.example.com", endpoint: `${base}/cf-bad` });
+    await assert.rejects(purger.purge(["/api/fetch?id=a"]), /Cloudflare purge failed: Request must contain files/);
+});
+
+test("a failed purge is logged as a warning and the write still succeeds", async () => {
+    requests.length = 0;
+    const cdn = new GithubCDN({
+        token: "", owner: "o", repo: "r", backend: new MemoryBackend(),
+        retry: { attempts: 2, baseDelay: 1 },
+        purgers: [new HttpPurger(`${base}/fail`), new HttpPurger(`${base}/hook`)]
+    });
+    const logs = [];
+    const asset = await cdn.upload(new Blob(["hello"]), { name: "a.txt", onUpdate: log => logs.push(log) });
+
+    assert.ok(await cdn.getAsset(asset.id));
+    const warning = logs.find(l => l.logType === "warning" && l.message.startsWith("Purge from 127.0.0.1"));
+    assert.match(warning.message, /purge failed \(500\)/);
+    const success = logs.find(l => l.logType === "success" && l.message.startsWith("Purged"));
+    assert.ok(success.urls.includes(`/api/fetch?id=${encodeURIComponent(asset.id)}`));
+    // The 500 was retried under the retry policy before giving up
+    assert.equal(requests.filter(r => r.url === "/fail").length, 2);
+    assert.equal(logs.at(-1).type, "done");
+});
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GithubCDN, MemoryBackend, ValidationError } from "../dist/index.js";
+
+const entry = (id, uploadedAt) => ({ id, name: `${id}.txt`, size: 1, type: "text/plain", path: `uploads/${id}`, uploadedAt });
+
+const newCDN = backend => new GithubCDN({ token: "", owner: "o", repo: "r", backend });
+
+/** Blob SHAs of the registry files at the branch head, by path. */
+const registryFiles = async backend =>
+    new Map((await backend.getTree(await backend.getRef("main"), true))
+        .filter(i => i.type === "blob" && i.path.startsWith("registry"))
+        .map(i => [i.path, i.sha]));
+
+test("entries are paged by upload month and listed newest first across pages", async () => {
+    const backend = new MemoryBackend();
+    const cdn = newCDN(backend);
+    const entries = [
+        entry("a", "2024-01-10T00:00:00.000Z"), entry("b", "2024-01-20T00:00:00.000Z"),
+        entry("c", "2024-02-05T00:00:00.000Z"), entry("d", "2024-03-01T00:00:00.000Z"), entry("e", "2024-03-02T00:00:00.000Z")
+    ];
+    await cdn.commit({ message: "Seed", registry: async registry => { for (const e of entries) await registry.put(e); } });
+
+    const files = await registryFiles(backend);
+    assert.deepEqual([...files.keys()].sort(), ["registry/2024-01.json", "registry/2024-02.json", "registry/2024-03.json", "registry/index.json"]);
+    const index = JSON.parse(new TextDecoder().decode(await backend.readFile("main", "registry/index.json")));
+    assert.deepEqual(index.pages.map(p => [p.key, p.count]), [["2024-03", 2], ["2024-02", 1], ["2024-01", 2]]);
+
+    const seen = [];
+    let cursor = null;
+    do {
+        const page = await cdn.list({ cursor, limit: 2 });
+        assert.ok(page.assets.length <= 2);
+        seen.push(...page.assets.map(a => a.id));
+        cursor = page.cursor;
+    } while (cursor);
+    assert.deepEqual(seen, ["e", "d", "c", "b", "a"]);
+});
+
+test("a change rewrites only its own page and the root index", async () => {
+    const backend = new MemoryBackend();
+    const cdn = newCDN(backend);
+    await cdn.commit({
+        message: "Seed",
+        registry: async registry => {
+            await registry.put(entry("a", "2024-01-10T00:00:00.000Z"));
+            await registry.put(entry("b", "2024-02-10T00:00:00.000Z"));
+        }
+    });
+    const before = await registryFiles(backend);
+
+    await cdn.commit({ message: "Add", registry: registry => registry.put(entry("c", "2024-02-11T00:00:00.000Z")) });
+    const after = await registryFiles(backend);
+    assert.equal(after.get("registry/2024-01.json"), before.get("registry/2024-01.json"));
+    assert.notEqual(after.get("registry/2024-02.json"), before.get("registry/2024-02.json"));
+    assert.notEqual(after.get("registry/index.json"), before.get("registry/index.json"));
+});
+
+test("a branch without a registry lists nothing and reports it missing", async () => {
+    assert.deepEqual(await newCDN(new MemoryBackend()).list(), { assets: [], cursor: null, registryMissing: true });
+});
+
+test("the legacy registry.json is read as is and split into pages on the next commit", async () => {
+    const backend = new MemoryBackend();
+    const legacy = [entry("new", "2024-02-01T00:00:00.000Z"), entry("old", "2023-12-01T00:00:00.000Z")];
+    const head = await backend.getRef("main");
+    const blob = await backend.createBlob(new TextEncoder().encode(JSON.stringify(legacy)));
+    const tree = await backend.createTree(head, [{ path: "registry.json", mode: "100644", type: "blob", sha: blob }]);
+    await backend.updateRef("main", await backend.createCommit("Legacy registry", tree, [head]));
+
+    const cdn = newCDN(backend);
+    assert.deepEqual((await cdn.list()).assets.map(a => a.id), ["new", "old"]);
+
+    await cdn.commit({ message: "Add", registry: registry => registry.put(entry("added", "2024-02-02T00:00:00.000Z")) });
+    const files = await registryFiles(backend);
+    assert.ok(!files.has("registry.json"));
+    assert.deepEqual([...files.keys()].sort(), ["registry/2023-12.json", "registry/2024-02.json", "registry/index.json"]);
+    assert.deepEqual((await cdn.list()).assets.map(a => a.id), ["added", "new", "old"]);
+});
+
+test("a malformed cursor is rejected", async () => {
+    await assert.rejects(newCDN(new MemoryBackend()).list({ cursor: "not a cursor" }), ValidationError);
+});
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GithubCDN, MemoryBackend, MemorySessionStore, ConflictError, NotFoundError, ValidationError } from "../dist/index.js";
+
+const data = new TextEncoder().encode("0123456789".repeat(25));
+const chunkSize = 100;
+const slice = index => data.slice((index - 1) * chunkSize, index * chunkSize);
+
+const newCDN = () => new GithubCDN({ token: "", owner: "o", repo: "r", backend: new MemoryBackend(), sessions: new MemorySessionStore() });
+const open = cdn => cdn.createSession({ fileName: "digits.txt", mimeType: "text/plain", totalSize: data.byteLength, chunkSize });
+const read = async (cdn, path) => new Uint8Array(await new Response((await cdn.fetch(path)).stream).arrayBuffer());
+
+test("chunks may arrive in any order and finalize only once all are stored", async () => {
+    const cdn = newCDN();
+    const session = await open(cdn);
+    assert.equal(session.totalChunks, 3);
+
+    await cdn.uploadChunk(session.id, 3, slice(3));
+    await cdn.uploadChunk(session.id, 1, slice(1));
+    assert.deepEqual(GithubCDN.missingChunks(await cdn.getSession(session.id)), [2]);
+    await assert.rejects(cdn.finalizeSession(session.id), ConflictError);
+
+    await cdn.uploadChunk(session.id, 2, slice(2));
+    const asset = await cdn.finalizeSession(session.id, { digest: await GithubCDN.digest(data), tags: ["digits"] });
+    assert.equal(asset.id, session.id);
+    assert.deepEqual(asset.tags, ["digits"]);
+    assert.deepEqual(await read(cdn, asset.path), data);
+    assert.equal(await cdn.getSession(session.id), null);
+});
+
+test("chunks of the wrong size or index are refused", async () => {
+    const cdn = newCDN();
+    const session = await open(cdn);
+    await assert.rejects(cdn.uploadChunk(session.id, 1, slice(1).subarray(1)), ValidationError);
+    await assert.rejects(cdn.uploadChunk(session.id, 4, slice(3)), ValidationError);
+    await assert.rejects(cdn.uploadChunk("unknown", 1, slice(1)), NotFoundError);
+});
+
+test("a digest the chunks do not hash to is refused and the session kept", async () => {
+    const cdn = newCDN();
+    const session = await open(cdn);
+    for (const index of [1, 2, 3]) await cdn.uploadChunk(session.id, index, slice(index));
+
+    await assert.rejects(cdn.finalizeSession(session.id, { digest: "0".repeat(64) }), ValidationError);
+    assert.ok(await cdn.getSession(session.id));
+    const asset = await cdn.finalizeSession(session.id);
+    assert.equal(asset.digest, await GithubCDN.digest(data));
+});
+
+test("resumeUpload pushes only the missing chunks", async () => {
+    const cdn = newCDN();
+    const session = await open(cdn);
+    await cdn.uploadChunk(session.id, 2, slice(2));
+
+    const pushed = [];
+    const uploadChunk = cdn.uploadChunk.bind(cdn);
+    cdn.uploadChunk = (id, index, chunk) => {
+        pushed.push(index);
+        return uploadChunk(id, index, chunk);
+    };
+    const asset = await cdn.resumeUpload(session.id, new Blob([data]));
+
+    assert.deepEqual(pushed, [1, 3]);
+    assert.equal(asset.digest, await GithubCDN.digest(data));
+    assert.deepEqual(await read(cdn, asset.path), data);
+});
+
+test("a session can upload the next version of an asset", async () => {
+    const cdn = newCDN();
+    const first = await cdn.upload(new Blob(["v1"]), { name: "digits.txt" });
+    const session = await cdn.createSession({ fileName: "digits.txt", mimeType: "text/plain", totalSize: data.byteLength, chunkSize, replaces: first.id });
+    const asset = await cdn.resumeUpload(session.id, new Blob([data]));
+
+    assert.equal(asset.id, first.id);
+    assert.equal(asset.version, 2);
+    assert.deepEqual(await read(cdn, asset.path), data);
+});
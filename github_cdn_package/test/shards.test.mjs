@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GithubCDN, MemoryBackend } from "../dist/index.js";
+
+/** Main repository `o/a` (registry and first shard) plus a second shard `o/b`. */
+const sharded = shardPolicy => {
+    const a = new MemoryBackend();
+    const b = new MemoryBackend();
+    const cdn = new GithubCDN({
+        token: "", owner: "o", repo: "a", backend: a, shardPolicy,
+        shards: [{ owner: "o", repo: "a" }, { owner: "o", repo: "b", backend: b }]
+    });
+    return { cdn, a, b };
+};
+
+const read = async (cdn, path) => new Response((await cdn.fetch(path)).stream).text();
+
+test("round-robin spreads uploads across shards and keeps the registry in the main repository", async () => {
+    const { cdn, a, b } = sharded();
+    const first = await cdn.upload(new Blob(["first"]), { name: "1.txt" });
+    const second = await cdn.upload(new Blob(["second"]), { name: "2.txt" });
+
+    assert.deepEqual([first.shard, second.shard], ["o/a", "o/b"]);
+    assert.ok(await a.readFile("main", `${first.path}/manifest.json`));
+    assert.ok(await b.readFile("main", `${second.path}/manifest.json`));
+    assert.equal(await a.readFile("main", `${second.path}/manifest.json`), null);
+    assert.equal(await b.readFile("main", "registry/index.json"), null);
+
+    assert.match(second.links.origin, /&shard=o%2Fb$/);
+    assert.match(second.links.cdn, /\/gh\/o\/b@/);
+    assert.equal(await read(cdn, first.path), "first");
+    assert.equal(await read(cdn, second.path), "second");
+});
+
+test("least-full picks the shard holding the fewest bytes", async () => {
+    const { cdn } = sharded("least-full");
+    const big = await cdn.upload(new Blob(["x".repeat(1000)]), { name: "big.txt" });
+    const next = await cdn.upload(new Blob(["small"]), { name: "small.txt" });
+    assert.notEqual(next.shard, big.shard);
+});
+
+test("a purge removes the data from the shard holding it", async () => {
+    const { cdn, b } = sharded();
+    await cdn.upload(new Blob(["first"]), { name: "1.txt" });
+    const second = await cdn.upload(new Blob(["second"]), { name: "2.txt" });
+
+    await cdn.delete(second.id, second.path);
+    assert.equal(await b.readFile("main", `${second.path}/manifest.json`), null);
+    assert.equal(await cdn.getAsset(second.id), null);
+});
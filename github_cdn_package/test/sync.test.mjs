@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GithubCDN, MemoryBackend } from "../dist/index.js";
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+const newCDN = () => new GithubCDN({ token: "", owner: "o", repo: "r", backend: new MemoryBackend() });
+
+test("sync() keeps the attributes a new version inherited from the registry", async () => {
+    const cdn = newCDN();
+    const first = await cdn.upload(new Blob(["v1"]), { name: "a.txt", metadata: { alt: "Logo" }, tags: ["brand"], folder: "img" });
+    await tick();
+    await cdn.upload(new Blob(["v2"]), { name: "a.txt", replaces: first.id });
+
+    await cdn.sync();
+    const synced = await cdn.getAsset(first.id);
+    assert.equal(synced.version, 2);
+    assert.deepEqual(synced.metadata, { alt: "Logo" });
+    assert.deepEqual(synced.tags, ["brand"]);
+    assert.equal(synced.folder, "img");
+});
+
+test("sync() keeps the registry's current version and trash state", async () => {
+    const cdn = newCDN();
+    const first = await cdn.upload(new Blob(["v1"]), { name: "a.txt" });
+    await tick();
+    await cdn.upload(new Blob(["v2"]), { name: "a.txt", replaces: first.id });
+    await cdn.rollback(first.id, 1);
+    const trashed = await cdn.trash(first.id);
+
+    await cdn.sync();
+    const synced = await cdn.getAsset(first.id);
+    assert.equal(synced.version, 1);
+    assert.equal(synced.versions.length, 2);
+    assert.equal(synced.trashedAt, trashed.trashedAt);
+});
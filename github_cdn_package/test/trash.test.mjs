@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GithubCDN, MemoryBackend, MemoryCache } from "../dist/index.js";
+
+test("trashing and restoring drop the cached registry entry", async () => {
+    const cdn = new GithubCDN({ token: "", owner: "o", repo: "r", backend: new MemoryBackend(), cache: new MemoryCache(), softDelete: true });
+    const asset = await cdn.upload(new Blob(["hello"]), { name: "a.txt" });
+
+    assert.equal((await cdn.getCachedAsset(asset.id)).trashedAt, undefined);
+    assert.equal((await cdn.getCachedAsset(asset.path)).trashedAt, undefined);
+    await cdn.trash(asset.id);
+    assert.ok((await cdn.getCachedAsset(asset.id)).trashedAt);
+    assert.ok((await cdn.getCachedAsset(asset.path)).trashedAt);
+    await cdn.restore(asset.id);
+    assert.equal((await cdn.getCachedAsset(asset.id)).trashedAt, undefined);
+});
+
+test("trashing twice keeps the first trashedAt and restoring an untrashed asset commits nothing", async () => {
+    const backend = new MemoryBackend();
+    const cdn = new GithubCDN({ token: "", owner: "o", repo: "r", backend, softDelete: true });
+    const asset = await cdn.upload(new Blob(["hello"]), { name: "a.txt" });
+
+    const head = await backend.getRef("main");
+    assert.equal((await cdn.restore(asset.id)).trashedAt, undefined);
+    assert.equal(await backend.getRef("main"), head);
+
+    const trashed = await cdn.trash(asset.id);
+    const trashedHead = await backend.getRef("main");
+    await new Promise(resolve => setTimeout(resolve, 5));
+    assert.equal((await cdn.trash(asset.id)).trashedAt, trashed.trashedAt);
+    assert.equal(await backend.getRef("main"), trashedHead);
+});
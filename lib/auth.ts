@@ -0,0 +1,90 @@
+// lib/auth.ts
+
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * API roles, each including the permissions of the ones before it:
+ * `reader` lists and fetches, `uploader` also uploads, edits and trashes, `admin` also purges and recovers.
+ */
+export type Role = "reader" | "uploader" | "admin";
+
+const ROLES: Role[] = ["reader", "uploader", "admin"];
+
+/**
+ * Reads API keys from the environment.
+ * CDN_API_KEYS="admin:<key>,uploader:<key>,reader:<key>" (a role may have several keys).
+ */
+function keysFromEnv(): { role: Role; key: string }[] {
+    const raw = process.env.CDN_API_KEYS;
+    if (!raw) return [];
+
+    return raw.split(",").map(pair => {
+        const [role, ...key] = pair.trim().split(":");
+        return { role: role as Role, key: key.join(":") };
+    }).filter(k => ROLES.includes(k.role) && k.key);
+}
+
+/**
+ * True unless the routes are deliberately open: CDN_AUTH=off, or no API keys outside production (local development).
+ * A production deployment without CDN_API_KEYS fails closed and rejects every request.
+ */
+export function authEnabled(): boolean {
+    if (process.env.CDN_AUTH === "off") return false;
+    return keysFromEnv().length > 0 || process.env.NODE_ENV === "production";
+}
+
+/** Compares in time independent of where the strings differ. */
+const safeEqual = (a: string, b: string) => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+};
+
+/**
+ * Key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ */
+export function credential(req: NextRequest): string | null {
+    const header = req.headers.get("authorization");
+    if (header?.startsWith("Bearer ")) return header.substring(7).trim();
+    return req.headers.get("x-api-key");
+}
+
+/**
+ * Role of the key a request carries, or null when it has none or an unknown one.
+ */
+export function roleOf(req: NextRequest): Role | null {
+    const presented = credential(req);
+    if (!presented) return null;
+    let role: Role | null = null;
+    // Every key is compared so timing does not reveal which one matched
+    for (const k of keysFromEnv()) {
+        if (safeEqual(k.key, presented) && (!role || ROLES.indexOf(k.role) > ROLES.indexOf(role))) role = k.role;
+    }
+    return role;
+}
+
+/**
+ * Consistent JSON error for failed authentication (401) or authorization (403).
+ */
+export function authError(status: 401 | 403, error: string): NextResponse {
+    const headers: Record<string, string> = status === 401 ? { "WWW-Authenticate": 'Bearer realm="cdn"' } : {};
+    return NextResponse.json({ error }, { status, headers });
+}
+
+/**
+ * Checks that a request may act with `role`.
+ * @returns The error response to send, or null if the request is allowed.
+ * @example
+ * const denied = authorize(req, "uploader");
+ * if (denied) return denied;
+ */
+export function authorize(req: NextRequest, role: Role): NextResponse | null {
+    if (!authEnabled()) return null;
+    if (!credential(req)) return authError(401, "Authentication required");
+
+    const granted = roleOf(req);
+    if (!granted) return authError(401, "Invalid API key");
+    if (ROLES.indexOf(granted) < ROLES.indexOf(role)) return authError(403, `Requires the ${role} role`);
+    return null;
+}
@@ -0,0 +1,107 @@
+// lib/cdn.ts
+
+import {
+    GithubCDN, CDNCache, CDNEncryptionConfig, CDNCompressionCodec, CDNShardConfig, CDNShardPolicy, CDNPurger, EdgeCache,
+    JsDelivrPurger, HttpPurger, CloudflarePurger
+} from "../github_cdn_package/src/index";
+import { globalRateLimiter } from "./rate-limiter";
+import { attachWebhooks } from "./webhooks";
+
+// Runtime Cache API (`caches.default` on Workers) for manifests, chunks and registry lookups; a no-op where there is none.
+// CDN_EDGE_CACHE="off" always reads through to GitHub.
+export const edgeCache: CDNCache | undefined = process.env.CDN_EDGE_CACHE === "off" ? undefined : new EdgeCache();
+
+/**
+ * Seconds a cached manifest or registry lookup is trusted: CDN_CACHE_TTL (default 300).
+ * Trashing or restoring an asset drops its cached entry where it happened; other edge locations see it after this long.
+ */
+export const cacheTTL = Number(process.env.CDN_CACHE_TTL) || 300;
+
+/**
+ * Reads chunk encryption keys from the environment.
+ * CDN_ENCRYPTION_KEYS="2024:<base64 key>,2025:<base64 key>", CDN_ENCRYPTION_KEY_ID="2025"
+ * (defaults to the last listed key).
+ */
+function encryptionFromEnv(): CDNEncryptionConfig | undefined {
+    const raw = process.env.CDN_ENCRYPTION_KEYS;
+    if (!raw) return undefined;
+
+    const keys: Record<string, string> = {};
+    for (const pair of raw.split(",")) {
+        const [id, key] = pair.trim().split(":");
+        if (id && key) keys[id] = key;
+    }
+    const ids = Object.keys(keys);
+    if (!ids.length) return undefined;
+
+    return { keys, activeKeyId: process.env.CDN_ENCRYPTION_KEY_ID || ids[ids.length - 1] };
+}
+
+/**
+ * Reads the shard pool from the environment.
+ * CDN_SHARDS="me/cdn-1,me/cdn-2", CDN_SHARD_POLICY="round-robin" | "least-full" | "hash".
+ * All shards share GITHUB_TOKEN; GITHUB_OWNER/GITHUB_REPO keep the registry.
+ */
+function shardsFromEnv(): CDNShardConfig[] | undefined {
+    const raw = process.env.CDN_SHARDS;
+    if (!raw) return undefined;
+
+    const shards = raw.split(",").map(entry => {
+        const [owner, repo] = entry.trim().split("/");
+        return { owner, repo };
+    }).filter(s => s.owner && s.repo);
+    return shards.length ? shards : undefined;
+}
+
+/**
+ * Reads the caches to purge after writes from the environment.
+ * CDN_PURGE_JSDELIVR="true" purges jsDelivr; CDN_PURGE_URL (with CDN_PURGE_TOKEN as a bearer token) receives
+ * every stale URL; CLOUDFLARE_ZONE_ID and CLOUDFLARE_API_TOKEN purge the zone serving CDN_PUBLIC_URL.
+ */
+function purgersFromEnv(): CDNPurger[] {
+    const env = process.env;
+    const purgers: CDNPurger[] = [];
+    if (env.CDN_PURGE_JSDELIVR === "true") purgers.push(new JsDelivrPurger());
+    if (env.CDN_PURGE_URL) {
+        purgers.push(new HttpPurger(env.CDN_PURGE_URL, env.CDN_PURGE_TOKEN ? { Authorization: `Bearer ${env.CDN_PURGE_TOKEN}` } : {}));
+    }
+    if (env.CLOUDFLARE_ZONE_ID && env.CLOUDFLARE_API_TOKEN && env.CDN_PUBLIC_URL) {
+        purgers.push(new CloudflarePurger({ zoneId: env.CLOUDFLARE_ZONE_ID, token: env.CLOUDFLARE_API_TOKEN, baseUrl: env.CDN_PUBLIC_URL }));
+    }
+    return purgers;
+}
+
+/**
+ * Builds the SDK client every API route shares, configured from the environment.
+ * Its lifecycle events go to the configured webhooks (see lib/webhooks.ts).
+ */
+export function createCDN(): GithubCDN {
+    const cdn = new GithubCDN({
+        token: process.env.GITHUB_TOKEN!,
+        owner: process.env.GITHUB_OWNER!,
+        repo: process.env.GITHUB_REPO!,
+        encryption: encryptionFromEnv(),
+        // CDN_COMPRESSION="gzip" | "deflate" compresses text, JSON, SVG and WASM chunks
+        compression: (process.env.CDN_COMPRESSION as CDNCompressionCodec | undefined) || undefined,
+        shards: shardsFromEnv(),
+        shardPolicy: (process.env.CDN_SHARD_POLICY as CDNShardPolicy | undefined) || undefined,
+        // Dashboard deletes go to the trash unless CDN_SOFT_DELETE="false"; /api/admin/purge empties it
+        softDelete: process.env.CDN_SOFT_DELETE !== "false",
+        trashRetention: Number(process.env.CDN_TRASH_RETENTION_DAYS || 30) * 24 * 60 * 60,
+        // CDN_SIGNING_SECRET makes /api/fetch require signed links, valid CDN_SIGNED_URL_TTL seconds (default 3600)
+        signing: process.env.CDN_SIGNING_SECRET
+            ? { secret: process.env.CDN_SIGNING_SECRET, ttl: Number(process.env.CDN_SIGNED_URL_TTL) || undefined }
+            : undefined,
+        rateLimiter: globalRateLimiter,
+        // CDN_RETRY_ATTEMPTS tries per GitHub call (default 4, 1 disables retries)
+        retry: {
+            attempts: Number(process.env.CDN_RETRY_ATTEMPTS) || undefined,
+            onRetry: (error, attempt, delay) => console.warn(`GitHub call failed (attempt ${attempt}), retrying in ${Math.round(delay)}ms: ${error.message}`),
+        },
+        cache: edgeCache,
+        cacheTTL,
+        purgers: purgersFromEnv(),
+    });
+    attachWebhooks(cdn);
+    return cdn;
+}
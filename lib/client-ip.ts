@@ -0,0 +1,18 @@
+// lib/client-ip.ts
+
+import { NextRequest } from "next/server";
+
+/**
+ * Address of the client behind a request, for IP-bound links and per-IP throttling.
+ * Only headers the hosting platform sets are trusted: `cf-connecting-ip` on Cloudflare, `x-real-ip` on Vercel,
+ * else the rightmost `X-Forwarded-For` entry, which the nearest proxy appended. The leftmost entries are
+ * whatever the client sent. CDN_CLIENT_IP_HEADER names the one header to use behind other proxies.
+ */
+export function clientIp(req: NextRequest): string | null {
+    const configured = process.env.CDN_CLIENT_IP_HEADER;
+    if (configured) return req.headers.get(configured)?.trim() || null;
+
+    const platform = req.headers.get("cf-connecting-ip") || req.headers.get("x-real-ip");
+    if (platform) return platform.trim();
+    return req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() || null;
+}
@@ -0,0 +1,49 @@
+// lib/deletion.ts
+
+import { NextRequest } from "next/server";
+import { ValidationError } from "../github_cdn_package/src/index";
+import { authorize } from "./auth";
+import { createCDN } from "./cdn";
+import { errorResponse } from "./errors";
+import { streamLogs } from "./ndjson";
+
+/** JSON body of a DELETE request, before validation. */
+export interface DeleteBody {
+    id?: unknown;
+    path?: unknown;
+    ids?: unknown;
+    permanent?: unknown;
+}
+
+/** Assets a DELETE request names: one asset with its folder path, or a batch of ids. */
+export type DeleteTargets = { id: string; path: string } | { ids: string[] };
+
+/**
+ * Handles DELETE on /api/assets and /api/assets/batch, streaming the logs as NDJSON.
+ * Trashing is an uploader's job; anything that purges, including a plain delete with soft delete off, takes an admin.
+ * @param targets - Picks the assets from the body, throwing a ValidationError when they are missing.
+ */
+export async function deleteAssets(req: NextRequest, targets: (body: DeleteBody) => DeleteTargets): Promise<Response> {
+    // The body only decides whether an admin is needed, so anonymous callers are turned away before it is read
+    const anonymous = authorize(req, "uploader");
+    if (anonymous) return anonymous;
+
+    try {
+        const body: DeleteBody | null = await req.json().catch(() => null);
+        if (typeof body !== "object" || body === null) throw new ValidationError("Request body must be a JSON object");
+        const cdn = createCDN();
+        const permanent = !!body.permanent;
+        // Without soft delete an ordinary delete purges too
+        const denied = permanent || !cdn.softDeletes ? authorize(req, "admin") : null;
+        if (denied) return denied;
+        const named = targets(body);
+
+        // Moves to the trash when soft delete is on, unless a permanent purge is requested
+        return streamLogs(onUpdate => {
+            if ("ids" in named) return permanent ? cdn.purgeMany(named.ids, onUpdate) : cdn.deleteMany(named.ids, onUpdate);
+            return permanent ? cdn.purge(named.id, named.path, onUpdate) : cdn.delete(named.id, named.path, onUpdate);
+        });
+    } catch (error: unknown) {
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,55 @@
+// lib/errors.ts
+
+import { NextResponse } from "next/server";
+import {
+    CDNError, ConflictError, IntegrityError, NotFoundError, RateLimitedError, UnauthorizedError,
+    UpstreamUnavailableError, ValidationError
+} from "../github_cdn_package/src/index";
+
+/**
+ * HTTP status for an error raised by the SDK.
+ * A GitHub token that is refused is the server's problem, not the caller's, hence 502 rather than 401.
+ */
+export function statusOf(error: unknown): number {
+    if (error instanceof ValidationError) return 400;
+    if (error instanceof NotFoundError) return 404;
+    if (error instanceof ConflictError) return 409;
+    if (error instanceof RateLimitedError) return 429;
+    if (error instanceof UnauthorizedError || error instanceof IntegrityError) return 502;
+    if (error instanceof UpstreamUnavailableError) return 503;
+    return 500;
+}
+
+const details = (error: unknown) => error instanceof CDNError
+    ? { code: error.name, retryable: error.retryable, requestId: error.requestId }
+    : {};
+
+/**
+ * JSON body describing an error: its message plus, for SDK errors, its class name, whether
+ * retrying may help and GitHub's request id.
+ */
+export function errorBody(error: unknown) {
+    return { error: error instanceof Error ? error.message : "Unknown error", ...details(error) };
+}
+
+/**
+ * Final `error` line of an NDJSON log stream, in the shape of a `CDNLog`.
+ */
+export function errorLog(error: unknown) {
+    return { type: "error", message: error instanceof Error ? error.message : "Unknown error", ...details(error) };
+}
+
+/**
+ * Consistent JSON error response for anything a route catches.
+ * @example
+ * } catch (error: unknown) {
+ *     return errorResponse(error);
+ * }
+ */
+export function errorResponse(error: unknown): NextResponse {
+    const headers: Record<string, string> = {};
+    if (error instanceof RateLimitedError && error.resetAt) {
+        headers["Retry-After"] = String(Math.max(1, Math.ceil((error.resetAt.getTime() - Date.now()) / 1000)));
+    }
+    return NextResponse.json(errorBody(error), { status: statusOf(error), headers });
+}
@@ -0,0 +1,22 @@
+// lib/ndjson.ts
+
+import { CDNLog } from "../github_cdn_package/src/index";
+import { errorLog } from "./errors";
+
+/**
+ * Streams an operation's logs as NDJSON, ending with its `done` or `error` line.
+ */
+export function streamLogs(run: (onUpdate: (log: CDNLog) => void) => Promise<unknown>): Response {
+    const encoder = new TextEncoder();
+    return new Response(new ReadableStream({
+        async start(controller) {
+            try {
+                await run(log => controller.enqueue(encoder.encode(JSON.stringify(log) + "\n")));
+                controller.close();
+            } catch (err: unknown) {
+                controller.enqueue(encoder.encode(JSON.stringify(errorLog(err)) + "\n"));
+                controller.close();
+            }
+        }
+    }), { headers: { "Content-Type": "application/x-ndjson" } });
+}
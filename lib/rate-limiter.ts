@@ -1,50 +1,9 @@
 // lib/rate-limiter.ts
 
-export class EthicalRateLimiter {
-    private bucket: {
-        capacity: number;
-        tokens: number;
-        refillRate: number; // tokens per second
-        lastRefill: number;
-    };
+import { EthicalRateLimiter } from "../github_cdn_package/src/index";
 
-    constructor(capacity = 4000, refillRatePerHour = 4000) {
-        this.bucket = {
-            capacity,
-            tokens: capacity,
-            refillRate: refillRatePerHour / 3600,
-            lastRefill: Date.now(),
-        };
-    }
+export { EthicalRateLimiter };
 
-    async acquire(cost = 1): Promise<boolean> {
-        this.refill();
-
-        if (this.bucket.tokens >= cost) {
-            this.bucket.tokens -= cost;
-            return true;
-        }
-        return false;
-    }
-
-    private refill() {
-        const now = Date.now();
-        const elapsedSeconds = (now - this.bucket.lastRefill) / 1000;
-        const tokensToAdd = elapsedSeconds * this.bucket.refillRate;
-
-        this.bucket.tokens = Math.min(this.bucket.capacity, this.bucket.tokens + tokensToAdd);
-        this.bucket.lastRefill = now;
-    }
-
-    getStatus() {
-        this.refill();
-        return {
-            tokens: Math.floor(this.bucket.tokens),
-            capacity: this.bucket.capacity,
-            percentage: (this.bucket.tokens / this.bucket.capacity) * 100,
-        };
-    }
-}
-
-// Global instance for the prototype
-export const globalRateLimiter = new EthicalRateLimiter();
+// Global instance for the prototype: shared by every request this server instance handles,
+// so the bucket tracks what GitHub last reported. CDN_RATE_LIMIT_THRESHOLD sets where throttling starts.
+export const globalRateLimiter = new EthicalRateLimiter(4000, 4000, Number(process.env.CDN_RATE_LIMIT_THRESHOLD) || 500);
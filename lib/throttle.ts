@@ -0,0 +1,156 @@
+// lib/throttle.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { EthicalRateLimiter, CDNRateLimitBucket } from "../github_cdn_package/src/index";
+import { credential, roleOf } from "./auth";
+import { clientIp } from "./client-ip";
+
+/**
+ * Where per-client buckets are kept between requests.
+ */
+export interface ThrottleStore {
+    get(key: string): Promise<CDNRateLimitBucket | null>;
+    /** Saves a bucket; it may be dropped after `ttl` seconds, by when it would be full again anyway */
+    set(key: string, bucket: CDNRateLimitBucket, ttl: number): Promise<void>;
+}
+
+/**
+ * Buckets in this server instance's memory. Each instance throttles on its own.
+ */
+export class MemoryThrottleStore implements ThrottleStore {
+    private buckets = new Map<string, { bucket: CDNRateLimitBucket; expiresAt: number }>();
+
+    constructor(private readonly maxClients = 10000) { }
+
+    async get(key: string): Promise<CDNRateLimitBucket | null> {
+        const entry = this.buckets.get(key);
+        if (entry && entry.expiresAt <= Date.now()) this.buckets.delete(key);
+        return this.buckets.get(key)?.bucket ?? null;
+    }
+
+    async set(key: string, bucket: CDNRateLimitBucket, ttl: number): Promise<void> {
+        this.buckets.delete(key);
+        // Maps iterate in insertion order, so the first key is the least recently seen client
+        if (this.buckets.size >= this.maxClients) this.buckets.delete(this.buckets.keys().next().value!);
+        this.buckets.set(key, { bucket, expiresAt: Date.now() + ttl * 1000 });
+    }
+}
+
+/**
+ * Minimal key-value namespace. Cloudflare KV bindings match it; `restKV` adapts Upstash / Vercel KV.
+ */
+export interface KVNamespaceLike {
+    get(key: string): Promise<string | null>;
+    put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+/**
+ * Buckets in a shared key-value store, so every instance sees the same counts.
+ * Updates are last-writer-wins: concurrent requests of one client may slip a few calls through.
+ */
+export class KVThrottleStore implements ThrottleStore {
+    constructor(private readonly kv: KVNamespaceLike, private readonly prefix = "throttle:") { }
+
+    async get(key: string): Promise<CDNRateLimitBucket | null> {
+        const value = await this.kv.get(this.prefix + key);
+        return value ? JSON.parse(value) : null;
+    }
+
+    async set(key: string, bucket: CDNRateLimitBucket, ttl: number): Promise<void> {
+        // Cloudflare KV rejects expirations shorter than a minute
+        await this.kv.put(this.prefix + key, JSON.stringify(bucket), { expirationTtl: Math.max(60, Math.ceil(ttl)) });
+    }
+}
+
+/**
+ * Upstash-compatible REST API (also Vercel KV) as a `KVNamespaceLike`.
+ */
+export function restKV(url: string, token: string): KVNamespaceLike {
+    const headers = { Authorization: `Bearer ${token}` };
+    return {
+        async get(key) {
+            const res = await fetch(`${url}/get/${encodeURIComponent(key)}`, { headers, cache: "no-store" });
+            if (!res.ok) throw new Error(`KV get failed: ${res.status}`);
+            return (await res.json()).result ?? null;
+        },
+        async put(key, value, options) {
+            const ttl = options?.expirationTtl ? `?EX=${options.expirationTtl}` : "";
+            const res = await fetch(`${url}/set/${encodeURIComponent(key)}${ttl}`, { method: "POST", headers, body: value });
+            if (!res.ok) throw new Error(`KV set failed: ${res.status}`);
+        },
+    };
+}
+
+/**
+ * Picks the bucket store from the environment: the REST KV behind KV_REST_API_URL / KV_REST_API_TOKEN
+ * when set, otherwise memory.
+ */
+function storeFromEnv(): ThrottleStore {
+    const url = process.env.KV_REST_API_URL;
+    const token = process.env.KV_REST_API_TOKEN;
+    return url && token ? new KVThrottleStore(restKV(url, token)) : new MemoryThrottleStore();
+}
+
+// Global instance for the prototype, shared by every request this server instance handles
+export const throttleStore: ThrottleStore = storeFromEnv();
+
+const sha256 = async (value: string) => {
+    const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(hash), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Bucket key of a request: its API key (hashed, and only if valid) or else its IP address as the platform
+ * reports it, so rotating a forged `X-Forwarded-For` does not buy a fresh bucket.
+ */
+async function clientKey(req: NextRequest): Promise<string> {
+    const key = credential(req);
+    if (key && roleOf(req)) return `key:${(await sha256(key)).substring(0, 32)}`;
+    return `ip:${clientIp(req) || "unknown"}`;
+}
+
+/**
+ * Spends `cost` tokens of the client's bucket.
+ * CDN_THROTTLE_BURST (default 60) requests at once, refilled at CDN_THROTTLE_PER_MINUTE (default 60);
+ * CDN_THROTTLE="off" disables throttling.
+ * @returns The 429 response to send, or null if the request may proceed.
+ * @example
+ * const denied = (await throttle(req)) ?? authorize(req, "reader");
+ * if (denied) return denied;
+ */
+export async function throttle(req: NextRequest, cost = 1, store: ThrottleStore = throttleStore): Promise<NextResponse | null> {
+    if (process.env.CDN_THROTTLE === "off") return null;
+    const capacity = Number(process.env.CDN_THROTTLE_BURST) || 60;
+    const perMinute = Number(process.env.CDN_THROTTLE_PER_MINUTE) || 60;
+
+    let limiter: EthicalRateLimiter;
+    let allowed: boolean;
+    try {
+        const key = await clientKey(req);
+        const stored = await store.get(key);
+        limiter = new EthicalRateLimiter(capacity, perMinute * 60, 0);
+        // Buckets saved under other settings start over
+        const { refillRate } = limiter.snapshot();
+        if (stored && stored.capacity === capacity && stored.refillRate === refillRate) limiter = EthicalRateLimiter.restore(stored);
+        allowed = await limiter.acquire(cost);
+        const bucket = limiter.snapshot();
+        await store.set(key, bucket, Math.max(1, (capacity - bucket.tokens) / bucket.refillRate));
+    } catch {
+        // An unreachable store must not take the API down with it
+        return null;
+    }
+    if (allowed) return null;
+
+    const retryAfter = Math.max(1, Math.ceil(limiter.retryAfter(cost) / 1000));
+    const window = Math.round((capacity / perMinute) * 60);
+    return NextResponse.json({ error: "Too many requests" }, {
+        status: 429,
+        headers: {
+            "Retry-After": String(retryAfter),
+            "RateLimit-Limit": String(capacity),
+            "RateLimit-Remaining": String(limiter.getStatus().tokens),
+            "RateLimit-Reset": String(retryAfter),
+            "RateLimit-Policy": `${capacity};w=${window}`,
+        },
+    });
+}
@@ -0,0 +1,41 @@
+// lib/webhooks.ts
+
+import { after } from "next/server";
+import { CDNEventType, GithubCDN, WebhookDispatcher } from "../github_cdn_package/src/index";
+
+/**
+ * Webhook endpoints from the environment, or null when none are configured.
+ * CDN_WEBHOOK_URLS="https://a.example/hook,https://b.example/hook" all signed with CDN_WEBHOOK_SECRET;
+ * CDN_WEBHOOK_EVENTS="asset.uploaded,asset.deleted" limits the event types (default: all).
+ * Dead letters are kept in this server instance's memory; /api/admin/webhooks lists and replays them.
+ */
+function dispatcherFromEnv(): WebhookDispatcher | null {
+    const urls = process.env.CDN_WEBHOOK_URLS?.split(",").map(url => url.trim()).filter(Boolean);
+    const secret = process.env.CDN_WEBHOOK_SECRET;
+    if (!urls?.length || !secret) return null;
+
+    const events = process.env.CDN_WEBHOOK_EVENTS?.split(",").map(e => e.trim() as CDNEventType).filter(Boolean);
+    return new WebhookDispatcher({
+        endpoints: urls.map(url => ({ url, secret, events: events?.length ? events : undefined })),
+        onDeadLetter: letter => console.error(`Webhook ${letter.event.type} to ${letter.url} failed ${letter.attempts} times: ${letter.error}`),
+    });
+}
+
+export const webhooks = dispatcherFromEnv();
+
+/**
+ * Delivers the events of `cdn` to the configured webhooks once the response has been sent,
+ * so clients never wait on slow receivers.
+ */
+export function attachWebhooks(cdn: GithubCDN) {
+    if (!webhooks) return;
+    cdn.on("*", event => {
+        const deliver = () => webhooks.dispatch(event);
+        try {
+            after(deliver);
+        } catch {
+            // Outside a request (scripts, tests) there is nothing to defer to
+            void deliver();
+        }
+    });
+}